@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getSchemaStatus } from '@/lib/database';
+
+// GET - Report the cache schema version and pending migrations
+export async function GET() {
+  try {
+    const schema = getSchemaStatus();
+
+    return NextResponse.json({
+      ...schema,
+      upToDate: schema.pending.length === 0,
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
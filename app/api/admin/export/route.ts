@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminToken } from '@/lib/admin';
+import { exportSnapshot } from '@/lib/snapshot';
+import { DATE_FIELDS } from '@/lib/params';
+import { DateField, SnapshotFilter } from '@/types';
+
+// GET - Download the cache as a JSON Lines snapshot, optionally limited to repos and a PR date range
+export async function GET(request: NextRequest) {
+  // The snapshot holds every cached PR, commit author email and deployment, so only admins may download it
+  const denied = checkAdminToken(request);
+  if (denied) return denied;
+
+  const searchParams = request.nextUrl.searchParams;
+  const reposParam = searchParams.get('repos');
+  const sinceParam = searchParams.get('since');
+  const untilParam = searchParams.get('until');
+  const dateField = (searchParams.get('dateField') || 'created') as DateField;
+
+  if (!DATE_FIELDS.includes(dateField)) {
+    return NextResponse.json({ error: `Invalid dateField. Use one of: ${DATE_FIELDS.join(', ')}` }, { status: 400 });
+  }
+
+  const since = sinceParam ? new Date(sinceParam) : null;
+  const until = untilParam ? new Date(untilParam) : null;
+  if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+    return NextResponse.json({ error: 'Invalid date format. Use ISO 8601 format.' }, { status: 400 });
+  }
+
+  const filter: SnapshotFilter = {
+    repos: reposParam ? reposParam.split(',').filter((r) => r.trim()) : undefined,
+    since: since?.toISOString(),
+    until: until?.toISOString(),
+    dateField,
+  };
+
+  const encoder = new TextEncoder();
+  const lines = exportSnapshot(filter);
+
+  // One record per pull, so a slow download doesn't buffer the whole cache
+  const stream = new ReadableStream({
+    pull(controller) {
+      try {
+        const next = lines.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(next.value));
+        }
+      } catch (error) {
+        console.error('Snapshot export error:', error);
+        controller.error(error);
+      }
+    },
+    cancel() {
+      lines.return(undefined);
+    },
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Content-Disposition': `attachment; filename="pr-cache-${date}.jsonl"`,
+    },
+  });
+}
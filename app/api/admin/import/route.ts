@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminToken } from '@/lib/admin';
+import { importSnapshot } from '@/lib/snapshot';
+
+// POST - Merge a JSON Lines snapshot from /api/admin/export into the cache
+export async function POST(request: NextRequest) {
+  // Importing replaces cached PRs, so only admins may do it
+  const denied = checkAdminToken(request);
+  if (denied) return denied;
+
+  try {
+    if (!request.body) {
+      return NextResponse.json({ error: 'Request body must be a snapshot' }, { status: 400 });
+    }
+
+    const result = await importSnapshot(request.body);
+
+    return NextResponse.json(result, { status: result.error ? 400 : 200 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Snapshot import error:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
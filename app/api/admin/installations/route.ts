@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepoConfig } from '@/lib/config';
+import { getGitHubHost, parseGitHubRepo, DEFAULT_GITHUB_HOST } from '@/lib/github';
+import { listInstallationRepositories, listInstallations } from '@/lib/githubapp';
+import { parseRepoRef } from '@/lib/providers';
+
+// GET - List the GitHub App's installations and which configured repos each one syncs
+export async function GET(request: NextRequest) {
+  try {
+    const config = await getRepoConfig();
+    const host = getGitHubHost(config, request.nextUrl.searchParams.get('host') || DEFAULT_GITHUB_HOST);
+
+    if (!host.app) {
+      return NextResponse.json({ error: `No GitHub App configured for ${host.name}` }, { status: 404 });
+    }
+
+    const installations = await listInstallations(host, true);
+
+    // Configured repos on this host, by owner
+    const repos = config.repos
+      .filter((repo) => parseRepoRef(repo).provider === 'github')
+      .map((path) => ({ path, ...parseGitHubRepo(path) }))
+      .filter((repo) => repo.host === host.name);
+
+    // Configured repos each installation can read; installations on selected repos only read those
+    const installationRepos = await Promise.all(installations.map(async (installation) => {
+      const owned = repos.filter((repo) => repo.owner.toLowerCase() === installation.account.toLowerCase());
+      if (installation.repositorySelection !== 'selected') return owned;
+      if (installation.suspended) return [];
+
+      const accessible = await listInstallationRepositories(host, installation.id);
+      return owned.filter((repo) => accessible.has(`${repo.owner}/${repo.repo}`.toLowerCase()));
+    }));
+    const installedPaths = new Set(
+      installations.flatMap((installation, i) => installation.suspended ? [] : installationRepos[i].map((repo) => repo.path))
+    );
+
+    return NextResponse.json({
+      host: host.name,
+      appId: host.app.appId,
+      installations: installations.map((installation, i) => ({
+        ...installation,
+        repos: installationRepos[i].map((repo) => repo.path),
+      })),
+      // Synced with the user's or the server token instead
+      uninstalledRepos: repos.filter((repo) => !installedPaths.has(repo.path)).map((repo) => repo.path),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLocalCommits } from '@/lib/database';
+import { aggregateCommits } from '@/lib/git';
+import { parseAnalysisQuery } from '@/lib/params';
+
+const DEFAULT_DEPTH = 2;
+const DEFAULT_LIMIT = 100;
+
+// GET - Commits per author, churn per directory and language mix of local clones
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const query = await parseAnalysisQuery(searchParams);
+    if ('error' in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    const depthParam = searchParams.get('depth');
+    const depth = depthParam ? parseInt(depthParam, 10) : DEFAULT_DEPTH;
+    if (isNaN(depth) || depth < 1) {
+      return NextResponse.json({ error: 'depth must be a positive integer' }, { status: 400 });
+    }
+
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT;
+
+    // Only local: repos have commits; other repos in the list are ignored
+    const repos = query.repos.filter((repo) => repo.startsWith('local:'));
+    const analysis = aggregateCommits(getLocalCommits(repos, query.since, query.until), depth);
+
+    return NextResponse.json({
+      repos,
+      depth,
+      ...analysis,
+      byPath: isNaN(limit) || limit <= 0 ? analysis.byPath : analysis.byPath.slice(0, limit),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Commit analysis error:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
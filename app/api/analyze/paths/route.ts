@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPullRequestFiles } from '@/lib/database';
+import { aggregateByPath } from '@/lib/analyzer';
+import { parseAnalysisQuery } from '@/lib/params';
+import { PathStats } from '@/types';
+
+const SORTS: Record<string, (a: PathStats, b: PathStats) => number> = {
+  prs: (a, b) => b.prCount - a.prCount,
+  lines: (a, b) => (b.additions + b.deletions) - (a.additions + a.deletions),
+  size: (a, b) => b.avgPRLines - a.avgPRLines,
+};
+
+const DEFAULT_LIMIT = 100;
+
+// GET - PR counts, lines and contributors grouped by directory
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const query = await parseAnalysisQuery(searchParams);
+    if ('error' in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    // e.g. prefix=substrate/frame/staking to see who works there
+    const prefix = (searchParams.get('prefix') || '').replace(/^\/+|\/+$/g, '');
+    const prefixDepth = prefix ? prefix.split('/').length : 0;
+
+    // Group one level below the prefix unless a depth is given
+    const depthParam = searchParams.get('depth');
+    const depth = depthParam ? parseInt(depthParam, 10) : Math.max(prefixDepth + 1, 2);
+    if (isNaN(depth) || depth < 1) {
+      return NextResponse.json({ error: 'depth must be a positive integer' }, { status: 400 });
+    }
+
+    const sort = searchParams.get('sort') || 'prs';
+    if (!SORTS[sort]) {
+      return NextResponse.json(
+        { error: `Invalid sort. Use one of: ${Object.keys(SORTS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT;
+
+    const files = getPullRequestFiles(query.repos, query.since, query.until, query.dateField, prefix || undefined);
+    const paths = aggregateByPath(files, depth).sort(SORTS[sort]);
+
+    return NextResponse.json({
+      prefix,
+      depth,
+      sort,
+      totalPaths: paths.length,
+      paths: isNaN(limit) || limit <= 0 ? paths : paths.slice(0, limit),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Path analysis error:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReviewerStats } from '@/lib/database';
+import { parseAnalysisQuery } from '@/lib/params';
+import { PRSize, ReviewsBy } from '@/types';
+
+const SIZES: PRSize[] = ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
+
+// GET - Reviewer stats, optionally filtered by PR author, size, labels, target branch and draft status
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const query = await parseAnalysisQuery(searchParams);
+    if ('error' in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    const reviewsBy = (searchParams.get('reviewsBy') || 'pr') as ReviewsBy;
+    if (reviewsBy !== 'pr' && reviewsBy !== 'review') {
+      return NextResponse.json(
+        { error: 'Invalid reviewsBy. Use "pr" or "review".' },
+        { status: 400 }
+      );
+    }
+
+    const list = (name: string) => {
+      const value = searchParams.get(name);
+      return value ? value.split(',').filter(v => v.trim()) : undefined;
+    };
+
+    const sizesParam = searchParams.get('sizes');
+    const sizes = sizesParam !== null
+      ? sizesParam.split(',').filter((size): size is PRSize => SIZES.includes(size as PRSize))
+      : undefined;
+
+    const reviewers = getReviewerStats({
+      ...query,
+      reviewsBy,
+      authors: list('authors'),
+      sizes,
+      labels: list('labels'),
+      baseRefs: list('baseRefs'),
+      excludeDrafts: searchParams.get('excludeDrafts') === 'true',
+    });
+
+    return NextResponse.json({
+      reviewers,
+      totalReviews: reviewers.reduce((sum, r) => sum + r.totalReviews, 0),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Reviewer analysis error:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,57 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRepoConfig } from '@/lib/config';
-import { getPullRequests, getTotalCachedPRs } from '@/lib/database';
+import { getPullRequests, getReleases, getDeployments, getReviewerStats, getTotalCachedPRs } from '@/lib/database';
 import { analyzeResults } from '@/lib/analyzer';
+import { parseAnalysisQuery } from '@/lib/params';
+import { Attribution } from '@/types';
 
 export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-
-    // Get date range from query params
-    const sinceParam = searchParams.get('since');
-    const untilParam = searchParams.get('until');
-    const reposParam = searchParams.get('repos');
-
-    // Default to last 30 days
-    const now = new Date();
-    const defaultSince = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-
-    const since = sinceParam ? new Date(sinceParam) : defaultSince;
-    const until = untilParam ? new Date(untilParam) : now;
-
-    // Validate dates
-    if (isNaN(since.getTime()) || isNaN(until.getTime())) {
-      return NextResponse.json(
-        { error: 'Invalid date format. Use ISO 8601 format.' },
-        { status: 400 }
-      );
+    const query = await parseAnalysisQuery(request.nextUrl.searchParams);
+    if ('error' in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
     }
 
-    if (since > until) {
+    // "coauthors" shares each PR between its author and commit co-authors
+    const attribution = (request.nextUrl.searchParams.get('attribution') || 'author') as Attribution;
+    if (attribution !== 'author' && attribution !== 'coauthors') {
       return NextResponse.json(
-        { error: 'Start date must be before end date' },
+        { error: 'Invalid attribution. Use "author" or "coauthors".' },
         { status: 400 }
       );
     }
 
-    // Get repos from query param or config
-    let repos: string[];
-    if (reposParam) {
-      repos = reposParam.split(',').filter(r => r.trim());
-    } else {
-      const config = await getRepoConfig();
-      repos = config.repos;
-    }
-
-    if (repos.length === 0) {
-      return NextResponse.json(
-        { error: 'No repositories configured. Add repositories first.' },
-        { status: 400 }
-      );
-    }
+    const { since, until, repos, dateField } = query;
 
     // Get PRs from local database (instant!)
-    const prs = getPullRequests(repos, since, until);
+    const prs = getPullRequests(repos, since, until, dateField);
     const totalCached = getTotalCachedPRs();
 
     if (prs.length === 0) {
@@ -64,7 +36,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const results = analyzeResults(prs, repos, since, until);
+    const reviewers = getReviewerStats({ repos, since, until, dateField, reviewsBy: 'pr' });
+    const releases = getReleases(repos, since, until);
+    const deployments = getDeployments(repos, since, until);
+    const results = analyzeResults(prs, reviewers, repos, since, until, dateField, attribution, releases, deployments);
 
     return NextResponse.json({
       ...results,
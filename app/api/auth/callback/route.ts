@@ -1,9 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getRepoConfig } from '@/lib/config';
+import { getGitHubHost } from '@/lib/github';
+import {
+  addSessionAccount,
+  cookieOptions,
+  getLegacyCookieNames,
+  getSession,
+  startSession,
+  verifyOAuthState,
+  OAUTH_STATE_COOKIE,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+} from '@/lib/session';
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const code = searchParams.get('code');
   const error = searchParams.get('error');
+  const state = searchParams.get('state');
 
   const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
 
@@ -15,8 +29,21 @@ export async function GET(request: NextRequest) {
     return NextResponse.redirect(`${appUrl}?error=no_code`);
   }
 
-  const clientId = process.env.GITHUB_CLIENT_ID;
-  const clientSecret = process.env.GITHUB_CLIENT_SECRET;
+  // A state that doesn't match the sign-in's means the callback was forged (OAuth CSRF)
+  const hostName = verifyOAuthState(request.cookies, state);
+  if (!hostName) {
+    return NextResponse.redirect(`${appUrl}?error=invalid_state`);
+  }
+
+  let host;
+  try {
+    host = getGitHubHost(await getRepoConfig(), hostName);
+  } catch {
+    return NextResponse.redirect(`${appUrl}?error=unknown_host`);
+  }
+
+  const clientId = process.env[`${host.envPrefix}_CLIENT_ID`];
+  const clientSecret = process.env[`${host.envPrefix}_CLIENT_SECRET`];
 
   if (!clientId || !clientSecret) {
     return NextResponse.redirect(`${appUrl}?error=oauth_not_configured`);
@@ -24,7 +51,7 @@ export async function GET(request: NextRequest) {
 
   try {
     // Exchange code for access token
-    const tokenResponse = await fetch('https://github.com/login/oauth/access_token', {
+    const tokenResponse = await fetch(host.tokenUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -46,38 +73,39 @@ export async function GET(request: NextRequest) {
     const accessToken = tokenData.access_token;
 
     // Fetch user info
-    const userResponse = await fetch('https://api.github.com/user', {
+    const userResponse = await fetch(`${host.apiUrl}/user`, {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Accept': 'application/vnd.github.v3+json',
       },
     });
 
+    if (!userResponse.ok) {
+      return NextResponse.redirect(`${appUrl}?error=oauth_failed`);
+    }
+
     const userData = await userResponse.json();
 
+    // A new session id on every sign-in; accounts on other hosts carry over from the current session
+    const sessionId = startSession(getSession(request.cookies));
+    addSessionAccount(sessionId, {
+      host: host.name,
+      login: userData.login,
+      name: userData.name,
+      avatarUrl: userData.avatar_url,
+    }, accessToken);
+
     // Create response with redirect
     const response = NextResponse.redirect(appUrl);
 
-    // Set cookies for token and user info
-    response.cookies.set('github_token', accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7, // 1 week
-      path: '/',
-    });
+    // Only the opaque session id goes to the browser
+    response.cookies.set(SESSION_COOKIE, sessionId, cookieOptions(SESSION_TTL_SECONDS));
+    response.cookies.set(OAUTH_STATE_COOKIE, '', cookieOptions(0));
 
-    response.cookies.set('github_user', JSON.stringify({
-      login: userData.login,
-      avatar_url: userData.avatar_url,
-      name: userData.name,
-    }), {
-      httpOnly: false, // Allow JS access for display
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7,
-      path: '/',
-    });
+    // Drop the raw token and user cookies of earlier versions
+    for (const name of getLegacyCookieNames(request.cookies)) {
+      response.cookies.set(name, '', cookieOptions(0));
+    }
 
     return response;
   } catch (err) {
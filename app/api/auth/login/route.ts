@@ -1,21 +1,56 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepoConfig } from '@/lib/config';
+import { getGitHubHost, DEFAULT_GITHUB_HOST } from '@/lib/github';
+import {
+  assertSessionSecret,
+  cookieOptions,
+  createOAuthState,
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_TTL_SECONDS,
+} from '@/lib/session';
 
-export async function GET() {
-  const clientId = process.env.GITHUB_CLIENT_ID;
+export async function GET(request: NextRequest) {
+  // ?host= signs in to a GitHub Enterprise Server host instead of github.com
+  const hostName = request.nextUrl.searchParams.get('host') || DEFAULT_GITHUB_HOST;
+
+  let host;
+  try {
+    host = getGitHubHost(await getRepoConfig(), hostName);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const clientId = process.env[`${host.envPrefix}_CLIENT_ID`];
 
   if (!clientId) {
     return NextResponse.json(
-      { error: 'GitHub OAuth not configured. Set GITHUB_CLIENT_ID in .env' },
+      { error: `GitHub OAuth not configured for ${host.name}. Set ${host.envPrefix}_CLIENT_ID in .env` },
       { status: 500 }
     );
   }
 
+  // Tokens are encrypted with a key from SESSION_SECRET; fail before the user signs in to GitHub
+  try {
+    assertSessionSecret();
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
   const redirectUri = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/auth/callback`;
 
-  const githubAuthUrl = new URL('https://github.com/login/oauth/authorize');
+  const githubAuthUrl = new URL(host.authorizeUrl);
   githubAuthUrl.searchParams.set('client_id', clientId);
   githubAuthUrl.searchParams.set('redirect_uri', redirectUri);
   githubAuthUrl.searchParams.set('scope', 'read:user repo');
 
-  return NextResponse.redirect(githubAuthUrl.toString());
+  // The callback only accepts a code that comes back with this state
+  const { state, cookie } = createOAuthState(host.name);
+  githubAuthUrl.searchParams.set('state', state);
+
+  const response = NextResponse.redirect(githubAuthUrl.toString());
+  response.cookies.set(OAUTH_STATE_COOKIE, cookie, cookieOptions(OAUTH_STATE_TTL_SECONDS));
+
+  return response;
 }
@@ -1,51 +1,58 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getRepoConfig } from '@/lib/config';
+import { getGitHubHost, revokeOAuthGrant } from '@/lib/github';
+import { cookieOptions, endSession, getLegacyCookieNames, getSession, getSessionTokens, SESSION_COOKIE } from '@/lib/session';
+
+function clearAuthCookies(request: NextRequest, response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', cookieOptions(0));
+  for (const name of getLegacyCookieNames(request.cookies)) {
+    response.cookies.set(name, '', cookieOptions(0));
+  }
+}
 
-export async function POST() {
-  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+// Cross-site requests carry an Origin other than the app's; same-origin fetches carry none or the app's
+function isSameOrigin(request: NextRequest): boolean {
+  const origin = request.headers.get('origin');
+  return !origin || origin === request.nextUrl.origin || origin === new URL(process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').origin;
+}
 
-  const response = NextResponse.json({ success: true });
+// POST - Revoke the OAuth grant of every account signed in to the session, then the session itself
+export async function POST(request: NextRequest) {
+  if (!isSameOrigin(request)) {
+    return NextResponse.json({ error: 'Cross-origin sign-out is not allowed' }, { status: 403 });
+  }
+
+  const session = getSession(request.cookies);
+  if (session) {
+    const config = await getRepoConfig();
+    for (const [hostName, token] of Object.entries(getSessionTokens(request.cookies))) {
+      try {
+        await revokeOAuthGrant(getGitHubHost(config, hostName), token);
+      } catch (error) {
+        // The session is revoked anyway, so its tokens can't be used from here again
+        console.warn(`Could not revoke the OAuth grant on ${hostName}:`, error);
+      }
+    }
+    endSession(session);
+  }
 
-  // Clear cookies
-  response.cookies.set('github_token', '', {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    maxAge: 0,
-    path: '/',
-  });
-
-  response.cookies.set('github_user', '', {
-    httpOnly: false,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    maxAge: 0,
-    path: '/',
-  });
+  const response = NextResponse.json({ success: true });
+  clearAuthCookies(request, response);
 
   return response;
 }
 
-export async function GET() {
+// GET - End the session without revoking the grants; any page can trigger a GET, so revoking is left to POST
+export async function GET(request: NextRequest) {
   const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
 
-  const response = NextResponse.redirect(appUrl);
+  const session = getSession(request.cookies);
+  if (session) {
+    endSession(session);
+  }
 
-  // Clear cookies
-  response.cookies.set('github_token', '', {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    maxAge: 0,
-    path: '/',
-  });
-
-  response.cookies.set('github_user', '', {
-    httpOnly: false,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    maxAge: 0,
-    path: '/',
-  });
+  const response = NextResponse.redirect(appUrl);
+  clearAuthCookies(request, response);
 
   return response;
 }
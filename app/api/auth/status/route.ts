@@ -1,28 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getRepoConfig } from '@/lib/config';
+import { getEnterpriseHostNames, getGitHubHost, DEFAULT_GITHUB_HOST } from '@/lib/github';
+import { getSession, getSessionTokens } from '@/lib/session';
 
 export async function GET(request: NextRequest) {
-  const token = request.cookies.get('github_token')?.value;
-  const userCookie = request.cookies.get('github_user')?.value;
+  const session = getSession(request.cookies);
+  const tokens = getSessionTokens(request.cookies);
+  const token = tokens[DEFAULT_GITHUB_HOST];
+
+  // GitHub Enterprise Server hosts the user can sign in to separately
+  const config = await getRepoConfig();
+  const enterpriseHosts = getEnterpriseHostNames(config).map((host) => ({
+    host,
+    authenticated: Boolean(tokens[host]),
+  }));
 
   if (!token) {
     return NextResponse.json({
       authenticated: false,
       user: null,
+      enterpriseHosts,
     });
   }
 
-  let user = null;
-  if (userCookie) {
-    try {
-      user = JSON.parse(userCookie);
-    } catch {
-      // Invalid cookie
-    }
-  }
+  // The signed-in user shown in the header is the github.com one
+  const account = session?.accounts.find((a) => a.host === DEFAULT_GITHUB_HOST);
+  const user = account
+    ? { login: account.login, avatar_url: account.avatarUrl, name: account.name }
+    : null;
 
   // Verify token is still valid
+  const { apiUrl } = getGitHubHost(config);
   try {
-    const response = await fetch('https://api.github.com/user', {
+    const response = await fetch(`${apiUrl}/user`, {
       headers: {
         'Authorization': `Bearer ${token}`,
         'Accept': 'application/vnd.github.v3+json',
@@ -33,10 +43,11 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({
         authenticated: false,
         user: null,
+        enterpriseHosts,
       });
     }
 
-    const rateLimit = await fetch('https://api.github.com/rate_limit', {
+    const rateLimit = await fetch(`${apiUrl}/rate_limit`, {
       headers: {
         'Authorization': `Bearer ${token}`,
         'Accept': 'application/vnd.github.v3+json',
@@ -48,6 +59,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       authenticated: true,
       user,
+      enterpriseHosts,
       rateLimit: {
         limit: rateLimitData.rate?.limit || 5000,
         remaining: rateLimitData.rate?.remaining || 0,
@@ -58,6 +70,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       authenticated: false,
       user: null,
+      enterpriseHosts,
     });
   }
 }
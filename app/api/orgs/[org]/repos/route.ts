@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createOctokit } from '@/lib/github';
+import { getRepoConfig } from '@/lib/config';
+import { createOctokit, formatGitHubRepo, getGitHubHost, DEFAULT_GITHUB_HOST } from '@/lib/github';
+import { getSessionTokens } from '@/lib/session';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { org: string } }
 ) {
   try {
-    const token = request.cookies.get('github_token')?.value;
-    const octokit = createOctokit(token);
+    // ?host= lists an organization on a GitHub Enterprise Server host
+    const hostName = request.nextUrl.searchParams.get('host') || DEFAULT_GITHUB_HOST;
+    const token = getSessionTokens(request.cookies)[hostName];
+    const octokit = createOctokit(token, getGitHubHost(await getRepoConfig(), hostName));
 
     const org = params.org;
 
@@ -31,7 +35,7 @@ export async function GET(
       for await (const { data: orgRepos } of iterator) {
         for (const repo of orgRepos) {
           if (!repo.archived && !repo.disabled) {
-            repos.push(repo.full_name);
+            repos.push(formatGitHubRepo(hostName, repo.full_name));
           }
         }
       }
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRepoConfig, addRepo, removeRepo, addMultipleRepos } from '@/lib/config';
-import { validateRepository } from '@/lib/github';
+import { getRepoConfig, addRepo, removeRepo, addMultipleRepos, setDefaultSyncHorizon, setRepoSyncHorizon } from '@/lib/config';
+import { getProvider, parseRepoRef, ProviderName } from '@/lib/providers';
+import { getSessionTokens } from '@/lib/session';
+
+const NOT_FOUND_ERRORS: Record<ProviderName, string> = {
+  github: 'Repository not found on GitHub or is not accessible',
+  gitlab: 'Repository not found on GitLab or is not accessible',
+  local: 'Not a git repository, or not readable by the server',
+};
 
 export async function GET() {
   try {
@@ -15,7 +22,6 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const token = request.cookies.get('github_token')?.value;
 
     // Support both single repo and multiple repos
     if (body.repos && Array.isArray(body.repos)) {
@@ -28,18 +34,19 @@ export async function POST(request: NextRequest) {
 
     if (!repo || typeof repo !== 'string') {
       return NextResponse.json(
-        { error: 'Repository path is required (format: owner/repo)' },
+        { error: 'Repository path is required (format: owner/repo, gitlab:group/project or local:/path/to/repo)' },
         { status: 400 }
       );
     }
 
-    // Validate that the repo exists on GitHub
-    const [owner, repoName] = repo.split('/');
-    const isValid = await validateRepository(owner, repoName, token);
+    // Validate that the repo exists on its provider
+    const ref = parseRepoRef(repo);
+    const repoConfig = await getRepoConfig();
+    const isValid = await getProvider(ref).validateRepository(ref.path, repoConfig, getSessionTokens(request.cookies));
 
     if (!isValid) {
       return NextResponse.json(
-        { error: 'Repository not found on GitHub or is not accessible' },
+        { error: NOT_FOUND_ERRORS[ref.provider] },
         { status: 404 }
       );
     }
@@ -52,6 +59,38 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// PATCH - Update the default sync horizon, or a single repo's override
+export async function PATCH(request: NextRequest) {
+  try {
+    const { repo, syncHorizon } = await request.json();
+
+    if (repo !== undefined) {
+      if (typeof repo !== 'string' || (syncHorizon !== null && typeof syncHorizon !== 'string')) {
+        return NextResponse.json(
+          { error: 'Repository path and sync horizon (or null to clear it) are required' },
+          { status: 400 }
+        );
+      }
+
+      const config = await setRepoSyncHorizon(repo, syncHorizon);
+      return NextResponse.json(config);
+    }
+
+    if (!syncHorizon || typeof syncHorizon !== 'string') {
+      return NextResponse.json(
+        { error: 'Sync horizon is required (e.g. 2025-01-01 or 18 months)' },
+        { status: 400 }
+      );
+    }
+
+    const config = await setDefaultSyncHorizon(syncHorizon);
+    return NextResponse.json(config);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
+
 export async function DELETE(request: NextRequest) {
   try {
     const { repo } = await request.json();
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelSyncJob } from '@/lib/jobs';
+import { getSyncJob } from '@/lib/database';
+
+// GET - Poll the status of a sync job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const job = getSyncJob(params.id);
+
+  if (!job) {
+    return NextResponse.json({ error: 'Sync job not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ job });
+}
+
+// DELETE - Cancel a running sync job
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const job = cancelSyncJob(params.id);
+
+  if (!job) {
+    return NextResponse.json({ error: 'Sync job not found' }, { status: 404 });
+  }
+
+  if (job.status !== 'queued' && job.status !== 'running') {
+    return NextResponse.json(
+      { error: `Sync job already ${job.status}`, job },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ job, cancelRequested: true }, { status: 202 });
+}
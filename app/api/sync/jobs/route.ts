@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionTokens } from '@/lib/session';
+import { requestSyncJob } from '@/lib/jobs';
+import { getActiveSyncJob, getRecentSyncJobs } from '@/lib/database';
+
+// GET - List recent sync jobs and the currently active one (if any)
+export async function GET() {
+  try {
+    return NextResponse.json({
+      active: getActiveSyncJob(),
+      jobs: getRecentSyncJobs(),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// POST - Start a sync as a background job
+export async function POST(request: NextRequest) {
+  try {
+    const tokens = getSessionTokens(request.cookies);
+    const body = await request.json();
+    const { repos, fullSync = false, resume = false } = body;
+
+    const result = await requestSyncJob({ repos, fullSync, resume, tokens });
+
+    if (!result.started) {
+      return NextResponse.json(result.body, { status: result.status });
+    }
+
+    return NextResponse.json({ job: result.job }, { status: 202 });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Sync job error:', error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
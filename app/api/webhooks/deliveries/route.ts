@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkAdminToken } from '@/lib/admin';
+import { getWebhookDeliveries } from '@/lib/database';
+import { replayWebhookDelivery } from '@/lib/webhooks';
+import { WebhookDeliveryStatus } from '@/types';
+
+const STATUSES: WebhookDeliveryStatus[] = ['pending', 'processed', 'ignored', 'failed'];
+
+// GET - List recent webhook deliveries, optionally filtered by status; payloads only with ?include=payload
+export async function GET(request: NextRequest) {
+  // Payloads hold private-repo PR bodies and sender data
+  const denied = checkAdminToken(request);
+  if (denied) return denied;
+
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+    const includePayload = request.nextUrl.searchParams.get('include') === 'payload';
+
+    if (status && !STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status. Expected one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const deliveries = getWebhookDeliveries((status as WebhookDeliveryStatus | null) ?? undefined);
+    return NextResponse.json({
+      deliveries: includePayload
+        ? deliveries
+        : deliveries.map(({ id, event, action, repo, status, error }) => ({ id, event, action, repo, status, error })),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// POST - Replay stored deliveries (e.g. ignored ones after adding their repo, or pending ones a restart interrupted)
+export async function POST(request: NextRequest) {
+  // Replaying refetches PRs with the server or App token and rewrites cached rows
+  const denied = checkAdminToken(request);
+  if (denied) return denied;
+
+  try {
+    const { ids } = await request.json();
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return NextResponse.json(
+        { error: 'Delivery ids are required' },
+        { status: 400 }
+      );
+    }
+
+    const results = [];
+    for (const id of ids) {
+      const delivery = await replayWebhookDelivery(String(id));
+      results.push(delivery
+        ? { id: delivery.id, status: delivery.status, error: delivery.error }
+        : { id, status: 'not_found' });
+    }
+
+    return NextResponse.json({ results });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { isWebhookSecretConfigured, verifyWebhookSignature, queueWebhookDelivery } from '@/lib/webhooks';
+
+// POST - Receive GitHub webhook deliveries and queue them to upsert the affected PRs
+export async function POST(request: NextRequest) {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+
+  // Refuse to run with a publicly known secret, which would let anyone forge deliveries
+  if (!isWebhookSecretConfigured(secret)) {
+    return NextResponse.json(
+      { error: 'GitHub webhooks not configured. Set GITHUB_WEBHOOK_SECRET in .env to a random secret' },
+      { status: 500 }
+    );
+  }
+
+  // The signature covers the raw body, so read it as text before parsing
+  const body = await request.text();
+  const signature = request.headers.get('x-hub-signature-256');
+
+  if (!verifyWebhookSignature(body, signature, secret)) {
+    return NextResponse.json({ error: 'Invalid webhook signature' }, { status: 401 });
+  }
+
+  const event = request.headers.get('x-github-event');
+  const deliveryId = request.headers.get('x-github-delivery') || randomUUID();
+
+  if (!event) {
+    return NextResponse.json({ error: 'Missing X-GitHub-Event header' }, { status: 400 });
+  }
+
+  // Sent once when the webhook is created
+  if (event === 'ping') {
+    return NextResponse.json({ ok: true });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  // Processed after responding; the outcome is recorded in the deliveries table
+  const delivery = queueWebhookDelivery(deliveryId, event, payload);
+
+  return NextResponse.json({ id: delivery.id, status: delivery.status }, { status: 202 });
+}
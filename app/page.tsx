@@ -1,9 +1,10 @@
 "use client";
 
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { AnalysisResult, DatePreset, PRSize } from "@/types";
+import { AnalysisResult, DateField, DatePreset, PRSize, RepoConfig as RepoConfigData, ReviewerStats, ReviewsBy } from "@/types";
 import { RepoConfig } from "@/components/RepoConfig";
 import { DateRangePicker, getDateRangeFromPreset } from "@/components/DateRangePicker";
+import { DateFieldSelect } from "@/components/DateFieldSelect";
 import { SummaryCards } from "@/components/SummaryCards";
 import { ContributorTable } from "@/components/ContributorTable";
 import { SizeDistribution } from "@/components/SizeDistribution";
@@ -11,42 +12,65 @@ import { LanguageDistribution } from "@/components/LanguageDistribution";
 import { TimelineChart } from "@/components/TimelineChart";
 import { TopContributorsChart } from "@/components/TopContributorsChart";
 import { SizeFilter } from "@/components/SizeFilter";
+import { BreakdownFilter } from "@/components/BreakdownFilter";
 import { ContributorFilter } from "@/components/ContributorFilter";
 import { RepoFilter } from "@/components/RepoFilter";
 import { GitHubAuth } from "@/components/GitHubAuth";
 import { SyncStatus } from "@/components/SyncStatus";
 import { ReviewAnalysis } from "@/components/ReviewAnalysis";
+import { FlowAnalysis } from "@/components/FlowAnalysis";
+import { DoraMetrics } from "@/components/DoraMetrics";
+import { LinkedIssues } from "@/components/LinkedIssues";
 import { Button } from "@/components/ui/button";
-import { RefreshCw, Github, ChevronDown, ChevronUp, Settings, Users, Eye } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RefreshCw, Github, ChevronDown, ChevronUp, Settings, Users, Eye, Timer, Rocket } from "lucide-react";
 import { subDays } from "date-fns";
+import { aggregateBreakdowns, aggregateCI, aggregateDora, aggregateFlow, aggregateIssues, aggregateReleases, getPRDate, summarizeFlow } from "@/lib/analyzer";
 
 const ALL_SIZES: PRSize[] = ["XS", "S", "M", "L", "XL", "XXL"];
 
 export default function Dashboard() {
   const [repos, setRepos] = useState<string[]>([]);
+  const [syncHorizon, setSyncHorizon] = useState<string | undefined>();
+  const [repoSyncHorizons, setRepoSyncHorizons] = useState<Record<string, string>>({});
   const [datePreset, setDatePreset] = useState<DatePreset>("30d");
   const [customFrom, setCustomFrom] = useState<Date>(subDays(new Date(), 30));
   const [customTo, setCustomTo] = useState<Date>(new Date());
+  const [dateField, setDateField] = useState<DateField>("created");
   const [sizeFilter, setSizeFilter] = useState<PRSize[]>([...ALL_SIZES]);
   const [contributorFilter, setContributorFilter] = useState<string[]>([]);
   const [repoFilter, setRepoFilter] = useState<string[]>([]);
+  const [labelFilter, setLabelFilter] = useState<string[]>([]);
+  const [baseRefFilter, setBaseRefFilter] = useState<string[]>([]);
+  const [excludeDrafts, setExcludeDrafts] = useState(false);
   const [data, setData] = useState<AnalysisResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [repoLoading, setRepoLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showAdmin, setShowAdmin] = useState(false);
-  const [activeTab, setActiveTab] = useState<"contributions" | "reviews">("contributions");
+  const [activeTab, setActiveTab] = useState<"contributions" | "reviews" | "flow" | "dora">("contributions");
+  const [reviewsBy, setReviewsBy] = useState<ReviewsBy>("pr");
+  const [reviewerData, setReviewerData] = useState<{ reviewers: ReviewerStats[]; totalReviews: number } | null>(null);
+  const [reviewerLoading, setReviewerLoading] = useState(false);
 
   // Load repos on mount
   useEffect(() => {
     loadRepos();
   }, []);
 
+  const applyConfig = (config: RepoConfigData) => {
+    setRepos(config.repos || []);
+    setSyncHorizon(config.syncHorizon);
+    setRepoSyncHorizons(config.repoSyncHorizons || {});
+  };
+
   const loadRepos = async () => {
     try {
       const response = await fetch("/api/repos");
-      const config = await response.json();
+      const config: RepoConfigData = await response.json();
       setRepos(config.repos || []);
+      setSyncHorizon(config.syncHorizon);
+      setRepoSyncHorizons(config.repoSyncHorizons || {});
     } catch (err) {
       console.error("Failed to load repos:", err);
     } finally {
@@ -67,7 +91,7 @@ export default function Dashboard() {
     }
 
     const config = await response.json();
-    setRepos(config.repos);
+    applyConfig(config);
   };
 
   const removeRepo = async (repo: string) => {
@@ -83,7 +107,7 @@ export default function Dashboard() {
     }
 
     const config = await response.json();
-    setRepos(config.repos);
+    applyConfig(config);
   };
 
   const addMultipleRepos = async (newRepos: string[]) => {
@@ -99,7 +123,23 @@ export default function Dashboard() {
     }
 
     const config = await response.json();
-    setRepos(config.repos);
+    applyConfig(config);
+  };
+
+  const updateSyncHorizon = async (horizon: string | null, repo?: string) => {
+    const response = await fetch("/api/repos", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(repo ? { repo, syncHorizon: horizon } : { syncHorizon: horizon }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to update sync horizon");
+    }
+
+    const config = await response.json();
+    applyConfig(config);
   };
 
   const fetchData = useCallback(async () => {
@@ -118,6 +158,7 @@ export default function Dashboard() {
         since: from.toISOString(),
         until: to.toISOString(),
         repos: repos.join(","),
+        dateField,
       });
 
       const response = await fetch(`/api/analyze?${params}`);
@@ -135,7 +176,57 @@ export default function Dashboard() {
     } finally {
       setLoading(false);
     }
-  }, [repos, datePreset, customFrom, customTo]);
+  }, [repos, datePreset, customFrom, customTo, dateField]);
+
+  // Reviewer stats are aggregated in SQL, so the Reviews tab refetches them when filters change
+  useEffect(() => {
+    if (!data || activeTab !== "reviews") return;
+
+    const params = new URLSearchParams({
+      since: data.dateRange.start,
+      until: data.dateRange.end,
+      repos: (repoFilter.length > 0 ? repoFilter : data.repos).join(","),
+      dateField: data.dateField,
+      reviewsBy,
+    });
+    if (contributorFilter.length > 0) {
+      params.set("authors", contributorFilter.join(","));
+    }
+    if (sizeFilter.length < ALL_SIZES.length) {
+      params.set("sizes", sizeFilter.join(","));
+    }
+    if (labelFilter.length > 0) {
+      params.set("labels", labelFilter.join(","));
+    }
+    if (baseRefFilter.length > 0) {
+      params.set("baseRefs", baseRefFilter.join(","));
+    }
+    if (excludeDrafts) {
+      params.set("excludeDrafts", "true");
+    }
+
+    let cancelled = false;
+    setReviewerLoading(true);
+
+    fetch(`/api/analyze/reviewers?${params}`)
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to load reviewer stats");
+        }
+        if (!cancelled) setReviewerData(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "An error occurred");
+      })
+      .finally(() => {
+        if (!cancelled) setReviewerLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [data, activeTab, reviewsBy, repoFilter, contributorFilter, sizeFilter, labelFilter, baseRefFilter, excludeDrafts]);
 
   // Filter data based on repo, size and contributor selection
   const filteredData = useMemo(() => {
@@ -155,9 +246,12 @@ export default function Dashboard() {
         )
       : repoFilteredPRs;
 
-    // Then filter by size
+    // Then filter by size, labels, target branch and draft status
     const fullyFilteredPRs = contributorFilteredPRs.filter((pr) =>
-      sizeFilter.includes(pr.size)
+      sizeFilter.includes(pr.size) &&
+      (labelFilter.length === 0 || (pr.labels || []).some((label) => labelFilter.includes(label))) &&
+      (baseRefFilter.length === 0 || (pr.baseRef !== undefined && baseRefFilter.includes(pr.baseRef))) &&
+      !(excludeDrafts && pr.isDraft)
     );
 
     // Recalculate size distribution from filtered PRs
@@ -263,6 +357,7 @@ export default function Dashboard() {
           deletions: c.deletions,
           prs: c.prs,
           languageStats: Object.keys(sortedStats).length > 0 ? sortedStats : undefined,
+          flow: summarizeFlow(c.prs),
         };
       })
       .sort((a, b) => b.totalPRs - a.totalPRs);
@@ -270,7 +365,8 @@ export default function Dashboard() {
     // Recalculate timeline from filtered PRs
     const newTimeline = data.timeline.map((t) => {
       const prsForDate = fullyFilteredPRs.filter((pr) => {
-        const prDate = pr.createdAt.substring(0, 10);
+        const prDate = getPRDate(pr, data.dateField)?.substring(0, 10);
+        if (!prDate) return false;
         return prDate === t.date || t.date.startsWith(prDate.substring(0, 7));
       });
 
@@ -284,58 +380,13 @@ export default function Dashboard() {
       };
     });
 
-    // Recalculate reviewers from filtered PRs
-    const reviewerMap = new Map<string, {
-      username: string;
-      totalReviews: number;
-      approvals: number;
-      changesRequested: number;
-      comments: number;
-      reviewedPRs: number[];
-    }>();
-
-    for (const pr of fullyFilteredPRs) {
-      if (!pr.reviews || pr.reviews.length === 0) continue;
-
-      for (const review of pr.reviews) {
-        const existing = reviewerMap.get(review.reviewer);
-
-        if (existing) {
-          existing.totalReviews++;
-          if (review.state === "APPROVED") existing.approvals++;
-          else if (review.state === "CHANGES_REQUESTED") existing.changesRequested++;
-          else if (review.state === "COMMENTED") existing.comments++;
-
-          if (!existing.reviewedPRs.includes(pr.number)) {
-            existing.reviewedPRs.push(pr.number);
-          }
-        } else {
-          reviewerMap.set(review.reviewer, {
-            username: review.reviewer,
-            totalReviews: 1,
-            approvals: review.state === "APPROVED" ? 1 : 0,
-            changesRequested: review.state === "CHANGES_REQUESTED" ? 1 : 0,
-            comments: review.state === "COMMENTED" ? 1 : 0,
-            reviewedPRs: [pr.number],
-          });
-        }
-      }
-    }
-
-    const newReviewers = Array.from(reviewerMap.values()).sort(
-      (a, b) => b.totalReviews - a.totalReviews
-    );
-
-    const newTotalReviews = fullyFilteredPRs.reduce(
-      (sum, pr) => sum + (pr.reviewCount || 0),
-      0
-    );
-
     // Calculate average complexity for filtered PRs
     const newAvgComplexity = fullyFilteredPRs.length > 0
       ? Math.round(fullyFilteredPRs.reduce((sum, pr) => sum + (pr.complexity || 0), 0) / fullyFilteredPRs.length)
       : 0;
 
+    const filteredReleases = data.releases.releases.filter((release) => repoFilter.length === 0 || repoFilter.includes(release.repo));
+
     return {
       ...data,
       totalPRs: fullyFilteredPRs.length,
@@ -345,14 +396,24 @@ export default function Dashboard() {
       uniqueContributors: newContributors.length,
       prs: fullyFilteredPRs,
       contributors: newContributors,
-      reviewers: newReviewers,
-      totalReviews: newTotalReviews,
       avgComplexity: newAvgComplexity,
+      breakdowns: aggregateBreakdowns(fullyFilteredPRs),
+      flow: aggregateFlow(fullyFilteredPRs, new Date(data.dateRange.start), new Date(data.dateRange.end), data.dateField),
+      ci: aggregateCI(fullyFilteredPRs, new Date(data.dateRange.start), new Date(data.dateRange.end), data.dateField),
+      issues: aggregateIssues(fullyFilteredPRs),
+      releases: aggregateReleases(fullyFilteredPRs, filteredReleases, new Date(data.dateRange.start), new Date(data.dateRange.end)),
+      dora: aggregateDora(
+        fullyFilteredPRs,
+        data.dora.deployments.filter((deployment) => repoFilter.length === 0 || repoFilter.includes(deployment.repo)),
+        filteredReleases,
+        new Date(data.dateRange.start),
+        new Date(data.dateRange.end)
+      ),
       sizeDistribution: newSizeDistribution,
       languageDistribution: sortedLangDist,
       timeline: newTimeline,
     };
-  }, [data, sizeFilter, contributorFilter, repoFilter]);
+  }, [data, sizeFilter, contributorFilter, repoFilter, labelFilter, baseRefFilter, excludeDrafts]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -387,16 +448,19 @@ export default function Dashboard() {
         <div className="grid gap-6 lg:grid-cols-2">
           <div className="p-6 border rounded-lg space-y-4">
             <h3 className="text-lg font-semibold">Analysis Settings</h3>
-            <DateRangePicker
-              preset={datePreset}
-              customFrom={customFrom}
-              customTo={customTo}
-              onPresetChange={setDatePreset}
-              onCustomRangeChange={(from, to) => {
-                setCustomFrom(from);
-                setCustomTo(to);
-              }}
-            />
+            <div className="flex flex-wrap items-center gap-4">
+              <DateRangePicker
+                preset={datePreset}
+                customFrom={customFrom}
+                customTo={customTo}
+                onPresetChange={setDatePreset}
+                onCustomRangeChange={(from, to) => {
+                  setCustomFrom(from);
+                  setCustomTo(to);
+                }}
+              />
+              <DateFieldSelect value={dateField} onChange={setDateField} />
+            </div>
             <div className="border-t pt-4">
               <ContributorFilter
                 handles={contributorFilter}
@@ -446,6 +510,9 @@ export default function Dashboard() {
                   onAddRepo={addRepo}
                   onRemoveRepo={removeRepo}
                   onAddMultipleRepos={addMultipleRepos}
+                  syncHorizon={syncHorizon}
+                  repoSyncHorizons={repoSyncHorizons}
+                  onUpdateSyncHorizon={updateSyncHorizon}
                   loading={repoLoading}
                 />
                 <SyncStatus onSyncComplete={() => {
@@ -496,6 +563,28 @@ export default function Dashboard() {
                   <Eye className="h-4 w-4" />
                   Reviews
                 </button>
+                <button
+                  onClick={() => setActiveTab("flow")}
+                  className={`flex items-center gap-2 px-4 py-2 border-b-2 transition-colors ${
+                    activeTab === "flow"
+                      ? "border-primary text-primary"
+                      : "border-transparent text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  <Timer className="h-4 w-4" />
+                  Flow
+                </button>
+                <button
+                  onClick={() => setActiveTab("dora")}
+                  className={`flex items-center gap-2 px-4 py-2 border-b-2 transition-colors ${
+                    activeTab === "dora"
+                      ? "border-primary text-primary"
+                      : "border-transparent text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  <Rocket className="h-4 w-4" />
+                  DORA
+                </button>
               </div>
             </div>
 
@@ -503,12 +592,36 @@ export default function Dashboard() {
             {activeTab === "contributions" && (
               <>
                 {/* Filters */}
-                <div className="border rounded-lg p-4">
+                <div className="border rounded-lg p-4 space-y-3">
                   <SizeFilter selected={sizeFilter} onChange={setSizeFilter} />
+                  <BreakdownFilter
+                    title="Labels"
+                    counts={data?.breakdowns.labels || {}}
+                    selected={labelFilter}
+                    onChange={setLabelFilter}
+                  />
+                  <BreakdownFilter
+                    title="Target branch"
+                    counts={data?.breakdowns.baseRefs || {}}
+                    selected={baseRefFilter}
+                    onChange={setBaseRefFilter}
+                  />
+                  {(data?.breakdowns.drafts ?? 0) > 0 && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="exclude-drafts"
+                        checked={excludeDrafts}
+                        onCheckedChange={(checked) => setExcludeDrafts(checked === true)}
+                      />
+                      <label htmlFor="exclude-drafts" className="text-sm cursor-pointer">
+                        Exclude drafts ({data?.breakdowns.drafts})
+                      </label>
+                    </div>
+                  )}
                 </div>
 
                 {/* Charts */}
-                <div className="grid gap-6 md:grid-cols-2">
+                <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
                   <SizeDistribution
                     distribution={filteredData?.sizeDistribution || { XS: 0, S: 0, M: 0, L: 0, XL: 0, XXL: 0 }}
                     loading={loading}
@@ -517,6 +630,11 @@ export default function Dashboard() {
                     distribution={filteredData?.languageDistribution || {}}
                     loading={loading}
                   />
+                  <LinkedIssues
+                    summary={filteredData?.issues}
+                    totalPRs={filteredData?.totalPRs || 0}
+                    loading={loading}
+                  />
                 </div>
 
                 <div className="grid gap-6 md:grid-cols-1">
@@ -528,6 +646,8 @@ export default function Dashboard() {
 
                 <TimelineChart
                   data={filteredData?.timeline || []}
+                  dateField={filteredData?.dateField}
+                  releases={filteredData?.releases.releases}
                   loading={loading}
                 />
 
@@ -542,11 +662,29 @@ export default function Dashboard() {
             {/* Reviews Tab */}
             {activeTab === "reviews" && (
               <ReviewAnalysis
-                reviewers={filteredData?.reviewers || []}
-                totalReviews={filteredData?.totalReviews || 0}
+                reviewers={reviewerData?.reviewers || []}
+                totalReviews={reviewerData?.totalReviews || 0}
+                reviewsBy={reviewsBy}
+                onReviewsByChange={setReviewsBy}
+                loading={loading || reviewerLoading}
+              />
+            )}
+
+            {/* Flow Tab */}
+            {activeTab === "flow" && (
+              <FlowAnalysis
+                flow={filteredData?.flow}
+                releases={filteredData?.releases}
+                prs={filteredData?.prs || []}
+                dateField={filteredData?.dateField}
                 loading={loading}
               />
             )}
+
+            {/* DORA Tab */}
+            {activeTab === "dora" && (
+              <DoraMetrics dora={filteredData?.dora} loading={loading} />
+            )}
           </>
         )}
 
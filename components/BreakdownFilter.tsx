@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface BreakdownFilterProps {
+  title: string;
+  counts: Record<string, number>; // Option -> number of PRs
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  limit?: number;
+}
+
+// Filter PRs by an attribute such as label or target branch; nothing selected means no filtering
+export function BreakdownFilter({ title, counts, selected, onChange, limit = 15 }: BreakdownFilterProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  const options = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  if (options.length === 0) {
+    return null;
+  }
+
+  // Keep selected options visible even when they fall outside the limit
+  const visible = showAll
+    ? options
+    : options.filter(([option], i) => i < limit || selected.includes(option));
+
+  const toggle = (option: string) => {
+    if (selected.includes(option)) {
+      onChange(selected.filter((s) => s !== option));
+    } else {
+      onChange([...selected, option]);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">{title}:</span>
+      <div className="flex flex-wrap gap-1">
+        {visible.map(([option, count]) => {
+          const isSelected = selected.includes(option);
+          return (
+            <Badge
+              key={option}
+              variant={isSelected ? "default" : "secondary"}
+              className={cn("cursor-pointer transition-all", !isSelected && "hover:opacity-70")}
+              onClick={() => toggle(option)}
+            >
+              {option} <span className="ml-1 opacity-60">{count}</span>
+            </Badge>
+          );
+        })}
+      </div>
+      <div className="flex gap-2 ml-2">
+        {options.length > limit && (
+          <button
+            className="text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => setShowAll(!showAll)}
+          >
+            {showAll ? "Fewer" : `All ${options.length}`}
+          </button>
+        )}
+        {selected.length > 0 && (
+          <button
+            className="text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => onChange([])}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
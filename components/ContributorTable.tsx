@@ -4,7 +4,7 @@ import { useState } from "react";
 import { ContributorStats, PRSize, PullRequest } from "@/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { getSizeBgClass, getComplexityBgClass, getComplexityLevel } from "@/lib/analyzer";
+import { getSizeBgClass, getComplexityBgClass, getComplexityLevel, formatDuration } from "@/lib/analyzer";
 import { ChevronDown, ChevronUp, ExternalLink } from "lucide-react";
 
 interface ContributorTableProps {
@@ -12,7 +12,7 @@ interface ContributorTableProps {
   loading?: boolean;
 }
 
-type SortField = "username" | "totalPRs" | "mergedPRs" | "additions" | "complexity";
+type SortField = "username" | "totalPRs" | "mergedPRs" | "additions" | "complexity" | "timeToFirstReview" | "cycleTime";
 type SortDirection = "asc" | "desc";
 
 const SIZE_ORDER: PRSize[] = ["XS", "S", "M", "L", "XL", "XXL"];
@@ -44,6 +44,10 @@ export function ContributorTable({ contributors, loading }: ContributorTableProp
         return multiplier * ((a.additions + a.deletions) - (b.additions + b.deletions));
       case "complexity":
         return multiplier * ((a.avgComplexity || 0) - (b.avgComplexity || 0));
+      case "timeToFirstReview":
+      case "cycleTime":
+        // Contributors without the metric sort last either way
+        return compareDurations(a.flow?.[sortField].p50, b.flow?.[sortField].p50, multiplier);
       default:
         return 0;
     }
@@ -115,6 +119,8 @@ export function ContributorTable({ contributors, loading }: ContributorTableProp
                 <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
                   Languages
                 </th>
+                <SortHeader field="timeToFirstReview" label="First Review (p50)" />
+                <SortHeader field="cycleTime" label="Cycle Time (p50)" />
                 <SortHeader field="additions" label="Lines" />
               </tr>
             </thead>
@@ -130,11 +136,15 @@ export function ContributorTable({ contributors, loading }: ContributorTableProp
                   >
                     <td className="px-4 py-3">
                       <div className="flex items-center gap-2">
-                        <img
-                          src={contributor.avatar}
-                          alt={contributor.username}
-                          className="h-8 w-8 rounded-full"
-                        />
+                        {contributor.avatar ? (
+                          <img
+                            src={contributor.avatar}
+                            alt={contributor.username}
+                            className="h-8 w-8 rounded-full"
+                          />
+                        ) : (
+                          <div className="h-8 w-8 rounded-full bg-muted" />
+                        )}
                         <span className="font-medium">{contributor.username}</span>
                       </div>
                     </td>
@@ -193,6 +203,12 @@ export function ContributorTable({ contributors, loading }: ContributorTableProp
                         )}
                       </div>
                     </td>
+                    <td className="px-4 py-3 text-sm whitespace-nowrap">
+                      {formatDuration(contributor.flow?.timeToFirstReview.p50)}
+                    </td>
+                    <td className="px-4 py-3 text-sm whitespace-nowrap">
+                      {formatDuration(contributor.flow?.cycleTime.p50)}
+                    </td>
                     <td className="px-4 py-3 text-sm">
                       <span className="text-green-600">+{contributor.additions.toLocaleString()}</span>
                       {" / "}
@@ -201,7 +217,7 @@ export function ContributorTable({ contributors, loading }: ContributorTableProp
                   </tr>
                   {expandedUser === contributor.username && (
                     <tr key={`${contributor.username}-expanded`}>
-                      <td colSpan={7} className="px-4 py-2 bg-muted/30">
+                      <td colSpan={9} className="px-4 py-2 bg-muted/30">
                         <div className="space-y-2 max-h-64 overflow-y-auto">
                           {contributor.prs.map((pr) => (
                             <PRRow key={pr.id} pr={pr} />
@@ -236,6 +252,11 @@ function PRRow({ pr }: { pr: PullRequest }) {
         <span className="text-sm truncate max-w-md">{pr.title}</span>
       </div>
       <div className="flex items-center gap-3">
+        {pr.commitCount !== undefined && (
+          <span className="text-xs text-muted-foreground">
+            {pr.commitCount} {pr.commitCount === 1 ? "commit" : "commits"}
+          </span>
+        )}
         <span className="text-xs text-muted-foreground">{pr.repo}</span>
         <Badge variant={pr.state === "merged" ? "default" : pr.state === "open" ? "secondary" : "outline"}>
           {pr.state}
@@ -253,3 +274,10 @@ function PRRow({ pr }: { pr: PullRequest }) {
     </div>
   );
 }
+
+function compareDurations(a: number | null | undefined, b: number | null | undefined, multiplier: number): number {
+  if (a == null || b == null) {
+    return (a == null ? 1 : 0) - (b == null ? 1 : 0);
+  }
+  return multiplier * (a - b);
+}
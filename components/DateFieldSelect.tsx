@@ -0,0 +1,36 @@
+"use client";
+
+import { DateField } from "@/types";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface DateFieldSelectProps {
+  value: DateField;
+  onChange: (field: DateField) => void;
+}
+
+export const DATE_FIELD_LABELS: Record<DateField, string> = {
+  created: "Created",
+  merged: "Merged",
+  closed: "Closed",
+  updated: "Updated",
+};
+
+export function DateFieldSelect({ value, onChange }: DateFieldSelectProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-muted-foreground">PRs:</span>
+      <Select value={value} onValueChange={(v) => onChange(v as DateField)}>
+        <SelectTrigger className="w-[170px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(DATE_FIELD_LABELS) as DateField[]).map((field) => (
+            <SelectItem key={field} value={field}>
+              {DATE_FIELD_LABELS[field]} in period
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { DoraSummary } from "@/types";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+import { formatDuration } from "@/lib/analyzer";
+import { format, parseISO } from "date-fns";
+
+interface DoraMetricsProps {
+  dora?: DoraSummary;
+  loading?: boolean;
+}
+
+const formatRate = (rate: number | null) => (rate === null ? "-" : `${rate}%`);
+
+export function DoraMetrics({ dora, loading }: DoraMetricsProps) {
+  if (loading || !dora) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>DORA</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-64 flex items-center justify-center">
+            <div className="animate-pulse text-muted-foreground">
+              Loading...
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (dora.byRepo.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>DORA</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground text-center py-8">
+            No deployments or releases in this range. Run a sync to fetch them.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { overall } = dora;
+  const cards = [
+    {
+      title: "Deployment Frequency",
+      value: `${overall.deploymentsPerWeek}/week`,
+      detail: `${overall.deployments} successful deployments`,
+    },
+    {
+      title: "Lead Time for Changes",
+      value: formatDuration(overall.leadTime.p50),
+      detail: `p75 ${formatDuration(overall.leadTime.p75)} · p90 ${formatDuration(overall.leadTime.p90)} · ${overall.leadTime.count} PRs`,
+    },
+    {
+      title: "Change Failure Rate",
+      value: formatRate(overall.changeFailureRate),
+      detail: `${overall.failedDeployments} failed deployments`,
+    },
+    {
+      title: "Time to Restore",
+      value: formatDuration(overall.timeToRestore.p50),
+      detail: `p90 ${formatDuration(overall.timeToRestore.p90)} · ${overall.timeToRestore.count} recoveries`,
+    },
+  ];
+
+  const formatDate = (dateStr: string) => {
+    try {
+      return format(parseISO(dateStr), "MMM d");
+    } catch {
+      return dateStr;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        {cards.map((card) => (
+          <Card key={card.title}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {card.title}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{card.value}</div>
+              <p className="text-xs text-muted-foreground">{card.detail}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Trend */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Deployments</CardTitle>
+          <CardDescription>Lead time runs from a PR&apos;s first commit to the deployment that shipped it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={dora.trend} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tickFormatter={formatDate} />
+                <YAxis allowDecimals={false} />
+                <Tooltip labelFormatter={formatDate} />
+                <Legend />
+                <Bar dataKey="deployments" stackId="a" fill="#22c55e" name="Successful" />
+                <Bar dataKey="failures" stackId="a" fill="#ef4444" name="Failed" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Repos Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>By Repository</CardTitle>
+          <CardDescription>Repos without deployments in the range use their releases, which can&apos;t fail</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Repository</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="text-right">Per Week</TableHead>
+                <TableHead className="text-right">Lead Time (p50)</TableHead>
+                <TableHead className="text-right">Change Failure Rate</TableHead>
+                <TableHead className="text-right">Time to Restore (p50)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {dora.byRepo.map((repo) => (
+                <TableRow key={repo.repo}>
+                  <TableCell className="font-medium">{repo.repo}</TableCell>
+                  <TableCell className="capitalize">{repo.source}</TableCell>
+                  <TableCell className="text-right">{repo.deploymentsPerWeek}</TableCell>
+                  <TableCell className="text-right">{formatDuration(repo.leadTime.p50)}</TableCell>
+                  <TableCell className="text-right">{formatRate(repo.changeFailureRate)}</TableCell>
+                  <TableCell className="text-right">{formatDuration(repo.timeToRestore.p50)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+"use client";
+
+import { useState } from "react";
+import { DateField, FlowMetric, FlowSummary, PullRequest, ReleaseSummary } from "@/types";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+import { FLOW_METRICS, calculateFlowMetrics, formatDuration } from "@/lib/analyzer";
+import { DATE_FIELD_LABELS } from "@/components/DateFieldSelect";
+import { format, parseISO } from "date-fns";
+
+interface FlowAnalysisProps {
+  flow?: FlowSummary;
+  releases?: ReleaseSummary;
+  prs: PullRequest[];
+  dateField?: DateField;
+  loading?: boolean;
+}
+
+export const FLOW_METRIC_LABELS: Record<FlowMetric, string> = {
+  timeToFirstReview: "Time to First Review",
+  timeToFirstApproval: "Time to First Approval",
+  approvalToMerge: "Approval to Merge",
+  cycleTime: "Cycle Time",
+};
+
+const COLORS: Record<FlowMetric, string> = {
+  timeToFirstReview: "#3b82f6",
+  timeToFirstApproval: "#22c55e",
+  approvalToMerge: "#eab308",
+  cycleTime: "#8b5cf6",
+};
+
+// Upper bounds in hours for the distribution histogram
+const DISTRIBUTION_BUCKETS = [
+  { label: "< 1h", max: 1 },
+  { label: "1-4h", max: 4 },
+  { label: "4-24h", max: 24 },
+  { label: "1-3d", max: 72 },
+  { label: "3-7d", max: 168 },
+  { label: "1-2w", max: 336 },
+  { label: "> 2w", max: Infinity },
+];
+
+export function FlowAnalysis({ flow, releases, prs, dateField, loading }: FlowAnalysisProps) {
+  const [metric, setMetric] = useState<FlowMetric>("cycleTime");
+
+  if (loading || !flow) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Flow</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-64 flex items-center justify-center">
+            <div className="animate-pulse text-muted-foreground">
+              Loading...
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (prs.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Flow</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground text-center py-8">
+            No PR data available
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Histogram of the selected metric
+  const distribution = DISTRIBUTION_BUCKETS.map((bucket) => ({ name: bucket.label, count: 0 }));
+  for (const pr of prs) {
+    const hours = (pr.flow ?? calculateFlowMetrics(pr))[metric];
+    if (hours === null) continue;
+    const index = DISTRIBUTION_BUCKETS.findIndex((bucket) => hours < bucket.max);
+    distribution[index].count++;
+  }
+
+  const formatDate = (dateStr: string) => {
+    try {
+      return format(parseISO(dateStr), "MMM d");
+    } catch {
+      return dateStr;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Cards */}
+      <div className="grid gap-4 md:grid-cols-4">
+        {FLOW_METRICS.map((m) => (
+          <Card key={m}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {FLOW_METRIC_LABELS[m]}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatDuration(flow.overall[m].p50)}</div>
+              <p className="text-xs text-muted-foreground">
+                p75 {formatDuration(flow.overall[m].p75)} · p90 {formatDuration(flow.overall[m].p90)} · {flow.overall[m].count} PRs
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Charts */}
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Distribution</CardTitle>
+            <Select value={metric} onValueChange={(v) => setMetric(v as FlowMetric)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FLOW_METRICS.map((m) => (
+                  <SelectItem key={m} value={m}>
+                    {FLOW_METRIC_LABELS[m]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={distribution} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Bar dataKey="count" fill={COLORS[metric]} name="PRs" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Median Trend</CardTitle>
+            {dateField && (
+              <CardDescription>
+                PRs by {DATE_FIELD_LABELS[dateField].toLowerCase()} date
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={flow.trend} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" tickFormatter={formatDate} />
+                  <YAxis tickFormatter={(hours) => formatDuration(hours)} />
+                  <Tooltip
+                    labelFormatter={formatDate}
+                    formatter={(value: number) => formatDuration(value)}
+                  />
+                  <Legend />
+                  {FLOW_METRICS.map((m) => (
+                    <Line
+                      key={m}
+                      type="monotone"
+                      dataKey={m}
+                      stroke={COLORS[m]}
+                      name={FLOW_METRIC_LABELS[m]}
+                      connectNulls
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Releases */}
+      {releases && releases.releases.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Releases</CardTitle>
+            <CardDescription>
+              Merge to release: {formatDuration(releases.leadTimeToRelease.p50)} median,
+              p90 {formatDuration(releases.leadTimeToRelease.p90)} · {releases.releasedPRs} PRs released,
+              {" "}{releases.unreleasedPRs} merged but unreleased
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Release</TableHead>
+                  <TableHead>Repository</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">PRs</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...releases.releases].reverse().map((release) => (
+                  <TableRow key={`${release.repo}:${release.tagName}`}>
+                    <TableCell className="font-medium">
+                      {release.name || release.tagName}
+                      {release.isPrerelease && <span className="ml-2 text-xs text-muted-foreground">pre-release</span>}
+                      {!release.hasRelease && <span className="ml-2 text-xs text-muted-foreground">tag</span>}
+                    </TableCell>
+                    <TableCell>{release.repo}</TableCell>
+                    <TableCell>{format(parseISO(release.publishedAt), "MMM d, yyyy")}</TableCell>
+                    <TableCell className="text-right">{release.prCount}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Repos Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>By Repository</CardTitle>
+          <CardDescription>p50 / p75 / p90</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Repository</TableHead>
+                <TableHead className="text-right">PRs</TableHead>
+                {FLOW_METRICS.map((m) => (
+                  <TableHead key={m} className="text-right">{FLOW_METRIC_LABELS[m]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {flow.byRepo.map((repo) => (
+                <TableRow key={repo.repo}>
+                  <TableCell className="font-medium">{repo.repo}</TableCell>
+                  <TableCell className="text-right">{repo.prCount}</TableCell>
+                  {FLOW_METRICS.map((m) => (
+                    <TableCell key={m} className="text-right whitespace-nowrap">
+                      {formatDuration(repo.metrics[m].p50)} / {formatDuration(repo.metrics[m].p75)} / {formatDuration(repo.metrics[m].p90)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Reviewers Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>By Reviewer</CardTitle>
+          <CardDescription>Time from a PR opening to the reviewer&apos;s first review and approval, p50 / p75 / p90</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reviewer</TableHead>
+                <TableHead className="text-right">PRs Reviewed</TableHead>
+                <TableHead className="text-right">Time to Review</TableHead>
+                <TableHead className="text-right">Time to Approval</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {flow.byReviewer.map((reviewer) => (
+                <TableRow key={reviewer.username}>
+                  <TableCell className="font-medium">{reviewer.username}</TableCell>
+                  <TableCell className="text-right">{reviewer.reviewedPRs}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {formatDuration(reviewer.timeToReview.p50)} / {formatDuration(reviewer.timeToReview.p75)} / {formatDuration(reviewer.timeToReview.p90)}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {formatDuration(reviewer.timeToApproval.p50)} / {formatDuration(reviewer.timeToApproval.p75)} / {formatDuration(reviewer.timeToApproval.p90)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
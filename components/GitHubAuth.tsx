@@ -13,6 +13,7 @@ interface GitHubUser {
 interface AuthStatus {
   authenticated: boolean;
   user: GitHubUser | null;
+  enterpriseHosts?: Array<{ host: string; authenticated: boolean }>;
   rateLimit?: {
     limit: number;
     remaining: number;
@@ -47,8 +48,8 @@ export function GitHubAuth({ onAuthChange }: GitHubAuthProps) {
     }
   };
 
-  const handleLogin = () => {
-    window.location.href = "/api/auth/login";
+  const handleLogin = (host?: string) => {
+    window.location.href = host ? `/api/auth/login?host=${encodeURIComponent(host)}` : "/api/auth/login";
   };
 
   const handleLogout = async () => {
@@ -73,9 +74,20 @@ export function GitHubAuth({ onAuthChange }: GitHubAuthProps) {
     );
   }
 
+  // GitHub Enterprise Server hosts the user hasn't signed in to yet
+  const enterpriseLogins = (status?.enterpriseHosts || [])
+    .filter((host) => !host.authenticated)
+    .map(({ host }) => (
+      <Button key={host} onClick={() => handleLogin(host)} variant="outline" size="sm">
+        <Github className="h-4 w-4 mr-2" />
+        Sign in to {host}
+      </Button>
+    ));
+
   if (status?.authenticated && status.user) {
     return (
       <div className="flex items-center gap-3">
+        {enterpriseLogins}
         <div className="flex items-center gap-2 text-sm">
           <img
             src={status.user.avatar_url}
@@ -103,9 +115,12 @@ export function GitHubAuth({ onAuthChange }: GitHubAuthProps) {
   }
 
   return (
-    <Button onClick={handleLogin} variant="outline">
-      <Github className="h-4 w-4 mr-2" />
-      Sign in with GitHub
-    </Button>
+    <div className="flex items-center gap-3">
+      {enterpriseLogins}
+      <Button onClick={() => handleLogin()} variant="outline">
+        <Github className="h-4 w-4 mr-2" />
+        Sign in with GitHub
+      </Button>
+    </div>
   );
 }
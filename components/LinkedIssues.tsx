@@ -0,0 +1,108 @@
+"use client";
+
+import { IssueSummary, IssueType } from "@/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from "recharts";
+import { formatDuration } from "@/lib/analyzer";
+
+interface LinkedIssuesProps {
+  summary?: IssueSummary;
+  totalPRs: number;
+  loading?: boolean;
+}
+
+const ISSUE_TYPES: Array<{ type: IssueType; label: string; color: string }> = [
+  { type: "bug", label: "Bugs", color: "#ef4444" },
+  { type: "feature", label: "Features", color: "#3b82f6" },
+  { type: "other", label: "Other", color: "#8b8b8b" },
+];
+
+export function LinkedIssues({ summary, totalPRs, loading }: LinkedIssuesProps) {
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Linked Issues</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[300px] flex items-center justify-center">
+            <div className="animate-pulse w-full h-48 bg-muted rounded" />
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!summary || summary.prsClosingIssues === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Linked Issues</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[300px] flex items-center justify-center text-center text-muted-foreground">
+            No PRs close an issue. Run a Full Sync to fetch linked issues.
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const data = ISSUE_TYPES
+    .map(({ type, label, color }) => ({ type, name: label, value: summary.issueTypes[type], color }))
+    .filter((d) => d.value > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Linked Issues</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <div className="text-2xl font-bold">{summary.closingShare}%</div>
+            <p className="text-muted-foreground">
+              of PRs close an issue ({summary.prsClosingIssues} of {totalPRs})
+            </p>
+          </div>
+          <div>
+            <div className="text-2xl font-bold">{formatDuration(summary.leadTime.p50)}</div>
+            <p className="text-muted-foreground">
+              median issue to merge, p90 {formatDuration(summary.leadTime.p90)}
+            </p>
+          </div>
+        </div>
+
+        <div className="h-[180px] mt-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie data={data} cx="50%" cy="50%" innerRadius={45} outerRadius={75} dataKey="value">
+                {data.map((entry) => (
+                  <Cell key={entry.type} fill={entry.color} />
+                ))}
+              </Pie>
+              <Tooltip formatter={(value: number) => [value, "Issues"]} />
+            </PieChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          {data.map(({ type, name, value, color }) => (
+            <div
+              key={type}
+              className="flex items-center gap-1.5 px-2 py-1 rounded bg-muted/50 text-sm"
+              title={`Median issue to merge: ${formatDuration(summary.leadTimeByType[type].p50)}`}
+            >
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+              <span>{name}</span>
+              <span className="font-medium text-muted-foreground">{value}</span>
+              <span className="text-xs text-muted-foreground">
+                {formatDuration(summary.leadTimeByType[type].p50)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
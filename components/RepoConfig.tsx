@@ -4,23 +4,39 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { X, Plus, Loader2, Building2, FolderGit2 } from "lucide-react";
+import { X, Plus, Loader2, Building2, FolderGit2, History } from "lucide-react";
 
 interface RepoConfigProps {
   repos: string[];
   onAddRepo: (repo: string) => Promise<void>;
   onRemoveRepo: (repo: string) => Promise<void>;
   onAddMultipleRepos?: (repos: string[]) => Promise<void>;
+  syncHorizon?: string;
+  repoSyncHorizons?: Record<string, string>;
+  onUpdateSyncHorizon?: (horizon: string | null, repo?: string) => Promise<void>;
   loading?: boolean;
 }
 
-export function RepoConfig({ repos, onAddRepo, onRemoveRepo, onAddMultipleRepos, loading }: RepoConfigProps) {
+export function RepoConfig({
+  repos,
+  onAddRepo,
+  onRemoveRepo,
+  onAddMultipleRepos,
+  syncHorizon,
+  repoSyncHorizons = {},
+  onUpdateSyncHorizon,
+  loading,
+}: RepoConfigProps) {
   const [newRepo, setNewRepo] = useState("");
   const [orgName, setOrgName] = useState("");
   const [adding, setAdding] = useState(false);
   const [addingOrg, setAddingOrg] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [mode, setMode] = useState<"repo" | "org">("repo");
+  const [defaultHorizon, setDefaultHorizon] = useState("");
+  const [overrideRepo, setOverrideRepo] = useState("");
+  const [overrideHorizon, setOverrideHorizon] = useState("");
+  const [savingHorizon, setSavingHorizon] = useState(false);
 
   const handleAddRepo = async () => {
     if (!newRepo.trim()) return;
@@ -45,7 +61,10 @@ export function RepoConfig({ repos, onAddRepo, onRemoveRepo, onAddMultipleRepos,
     setError(null);
 
     try {
-      const response = await fetch(`/api/orgs/${encodeURIComponent(orgName.trim())}/repos`);
+      // "host/org" lists an organization on a GitHub Enterprise Server host
+      const [org, host] = orgName.trim().split("/").reverse();
+      const query = host ? `?host=${encodeURIComponent(host)}` : "";
+      const response = await fetch(`/api/orgs/${encodeURIComponent(org)}/repos${query}`);
       const data = await response.json();
 
       if (!response.ok) {
@@ -91,6 +110,27 @@ export function RepoConfig({ repos, onAddRepo, onRemoveRepo, onAddMultipleRepos,
     }
   };
 
+  const handleSaveHorizon = async (horizon: string | null, repo?: string) => {
+    if (!onUpdateSyncHorizon) return;
+
+    setSavingHorizon(true);
+    setError(null);
+
+    try {
+      await onUpdateSyncHorizon(horizon, repo);
+      if (repo) {
+        setOverrideRepo("");
+        setOverrideHorizon("");
+      } else {
+        setDefaultHorizon("");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update sync horizon");
+    } finally {
+      setSavingHorizon(false);
+    }
+  };
+
   const clearAllRepos = async () => {
     for (const repo of repos) {
       await onRemoveRepo(repo);
@@ -132,7 +172,7 @@ export function RepoConfig({ repos, onAddRepo, onRemoveRepo, onAddMultipleRepos,
         {mode === "repo" ? (
           <div className="flex gap-2">
             <Input
-              placeholder="owner/repo (e.g., facebook/react)"
+              placeholder="owner/repo (e.g., facebook/react) or gitlab:group/project"
               value={newRepo}
               onChange={(e) => setNewRepo(e.target.value)}
               onKeyPress={handleKeyPress}
@@ -145,7 +185,7 @@ export function RepoConfig({ repos, onAddRepo, onRemoveRepo, onAddMultipleRepos,
         ) : (
           <div className="flex gap-2">
             <Input
-              placeholder="Organization name (e.g., facebook)"
+              placeholder="Organization name (e.g., facebook or github.example.com/platform)"
               value={orgName}
               onChange={(e) => setOrgName(e.target.value)}
               onKeyPress={handleKeyPress}
@@ -195,6 +235,11 @@ export function RepoConfig({ repos, onAddRepo, onRemoveRepo, onAddMultipleRepos,
                   className="flex items-center gap-1 bg-secondary text-secondary-foreground px-3 py-1 rounded-full text-sm"
                 >
                   <span>{repo}</span>
+                  {repoSyncHorizons[repo] && (
+                    <span className="text-xs text-muted-foreground" title="Sync horizon override">
+                      · {repoSyncHorizons[repo]}
+                    </span>
+                  )}
                   <button
                     onClick={() => onRemoveRepo(repo)}
                     className="hover:text-destructive ml-1"
@@ -207,6 +252,84 @@ export function RepoConfig({ repos, onAddRepo, onRemoveRepo, onAddMultipleRepos,
             </div>
           </div>
         )}
+
+        {/* Sync Horizon */}
+        {onUpdateSyncHorizon && repos.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <div className="flex items-center gap-2">
+              <History className="h-4 w-4 text-muted-foreground" />
+              <span className="text-sm font-medium">Sync horizon</span>
+              <span className="text-xs text-muted-foreground">
+                (default: {syncHorizon || "2025-07-01"})
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Default, e.g. 2025-01-01 or 18 months"
+                value={defaultHorizon}
+                onChange={(e) => setDefaultHorizon(e.target.value)}
+                disabled={savingHorizon || loading}
+              />
+              <Button
+                variant="outline"
+                onClick={() => handleSaveHorizon(defaultHorizon.trim())}
+                disabled={savingHorizon || loading || !defaultHorizon.trim()}
+              >
+                Set
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="owner/repo"
+                list="sync-horizon-repos"
+                value={overrideRepo}
+                onChange={(e) => setOverrideRepo(e.target.value)}
+                disabled={savingHorizon || loading}
+              />
+              <datalist id="sync-horizon-repos">
+                {repos.map((repo) => (
+                  <option key={repo} value={repo} />
+                ))}
+              </datalist>
+              <Input
+                placeholder="e.g. 6 months"
+                value={overrideHorizon}
+                onChange={(e) => setOverrideHorizon(e.target.value)}
+                disabled={savingHorizon || loading}
+              />
+              <Button
+                variant="outline"
+                onClick={() => handleSaveHorizon(overrideHorizon.trim(), overrideRepo.trim())}
+                disabled={savingHorizon || loading || !overrideRepo.trim() || !overrideHorizon.trim()}
+              >
+                Override
+              </Button>
+            </div>
+            {Object.keys(repoSyncHorizons).length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(repoSyncHorizons).map(([repo, horizon]) => (
+                  <div
+                    key={repo}
+                    className="flex items-center gap-1 border px-2 py-0.5 rounded-full text-xs"
+                  >
+                    <span>{repo}: {horizon}</span>
+                    <button
+                      onClick={() => handleSaveHorizon(null, repo)}
+                      className="hover:text-destructive ml-1"
+                      disabled={savingHorizon || loading}
+                      title="Remove override"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              How far back syncs fetch PRs. Run a Full Sync after extending a horizon to backfill older PRs.
+            </p>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,6 +1,6 @@
 "use client";
 
-import { ReviewerStats } from "@/types";
+import { ReviewerStats, ReviewsBy } from "@/types";
 import {
   Table,
   TableBody,
@@ -10,6 +10,8 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatDuration } from "@/lib/analyzer";
 import {
   BarChart,
   Bar,
@@ -27,6 +29,8 @@ import {
 interface ReviewAnalysisProps {
   reviewers: ReviewerStats[];
   totalReviews: number;
+  reviewsBy: ReviewsBy;
+  onReviewsByChange: (reviewsBy: ReviewsBy) => void;
   loading?: boolean;
 }
 
@@ -39,11 +43,29 @@ const COLORS = {
 export function ReviewAnalysis({
   reviewers,
   totalReviews,
+  reviewsBy,
+  onReviewsByChange,
   loading,
 }: ReviewAnalysisProps) {
+  const reviewsBySelect = (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-muted-foreground">Count reviews by:</span>
+      <Select value={reviewsBy} onValueChange={(v) => onReviewsByChange(v as ReviewsBy)}>
+        <SelectTrigger className="w-[160px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="pr">PR date</SelectItem>
+          <SelectItem value="review">Review date</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="space-y-6">
+        {reviewsBySelect}
         <Card>
           <CardHeader>
             <CardTitle>Review Analysis</CardTitle>
@@ -62,16 +84,19 @@ export function ReviewAnalysis({
 
   if (reviewers.length === 0) {
     return (
-      <Card>
-        <CardHeader>
-          <CardTitle>Review Analysis</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <p className="text-muted-foreground text-center py-8">
-            No review data available. Sync data to see review statistics.
-          </p>
-        </CardContent>
-      </Card>
+      <div className="space-y-6">
+        {reviewsBySelect}
+        <Card>
+          <CardHeader>
+            <CardTitle>Review Analysis</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-muted-foreground text-center py-8">
+              No review data available. Sync data to see review statistics.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
     );
   }
 
@@ -104,6 +129,8 @@ export function ReviewAnalysis({
 
   return (
     <div className="space-y-6">
+      {reviewsBySelect}
+
       {/* Summary Cards */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
@@ -244,7 +271,13 @@ export function ReviewAnalysis({
                 <TableHead className="text-right">Approvals</TableHead>
                 <TableHead className="text-right">Changes Requested</TableHead>
                 <TableHead className="text-right">Comments</TableHead>
+                <TableHead className="text-right">Inline Comments</TableHead>
+                <TableHead className="text-right">Avg Length</TableHead>
                 <TableHead className="text-right">Approval Rate</TableHead>
+                <TableHead className="text-right">Requests</TableHead>
+                <TableHead className="text-right">Median Response</TableHead>
+                <TableHead className="text-right">Ignored</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -275,7 +308,25 @@ export function ReviewAnalysis({
                     <TableCell className="text-right text-blue-600">
                       {reviewer.comments}
                     </TableCell>
+                    <TableCell className="text-right">
+                      {reviewer.inlineComments ?? 0}
+                    </TableCell>
+                    <TableCell className="text-right" title="Average review body length in characters">
+                      {reviewer.avgBodyLength ?? 0}
+                    </TableCell>
                     <TableCell className="text-right">{approvalRate}%</TableCell>
+                    <TableCell className="text-right" title={`${reviewer.respondedRequests ?? 0} answered`}>
+                      {reviewer.reviewRequests ?? 0}
+                    </TableCell>
+                    <TableCell className="text-right" title="Median time from a review request to the reviewer's next review">
+                      {formatDuration(reviewer.medianResponseHours)}
+                    </TableCell>
+                    <TableCell className="text-right" title="Requests withdrawn, or whose PR closed, without a review">
+                      {reviewer.ignoredRequests ?? 0}
+                    </TableCell>
+                    <TableCell className="text-right text-orange-600" title="Requests still awaiting a review on open PRs">
+                      {reviewer.outstandingRequests ?? 0}
+                    </TableCell>
                   </TableRow>
                 );
               })}
@@ -1,22 +1,33 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { RefreshCw, Database, CheckCircle, AlertCircle, Clock, Loader2 } from "lucide-react";
-import { formatDistanceToNow } from "date-fns";
+import { RefreshCw, Database, CheckCircle, AlertCircle, Clock, Loader2, XCircle } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
 
 interface RepoSyncStatus {
   repo: string;
   lastSyncedAt: string | null;
   prCount: number;
   needsSync: boolean;
+  syncHorizon: string;
+  coveredSince: string | null;
+}
+
+interface ScheduleStatus {
+  name: string;
+  nextRunAt: string | null;
+  lastRun: { status: string; finishedAt: string; error: string | null } | null;
+  error: string | null;
 }
 
 interface SyncStatusData {
   repos: RepoSyncStatus[];
   totalCachedPRs: number;
+  activeJob: { id: string } | null;
+  schedules: ScheduleStatus[];
 }
 
 interface SyncStatusProps {
@@ -35,7 +46,7 @@ export function SyncStatus({ onSyncComplete }: SyncStatusProps) {
   const [status, setStatus] = useState<SyncStatusData | null>(null);
   const [syncing, setSyncing] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [currentRepo, setCurrentRepo] = useState<string>("");
+  const [pausedUntil, setPausedUntil] = useState<string | null>(null);
   const [repoProgress, setRepoProgress] = useState<RepoProgress[]>([]);
   const [totalSynced, setTotalSynced] = useState(0);
   const [error, setError] = useState<string | null>(null);
@@ -43,90 +54,80 @@ export function SyncStatus({ onSyncComplete }: SyncStatusProps) {
   const [skippedCount, setSkippedCount] = useState(0);
   const [message, setMessage] = useState<string | null>(null);
 
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const attachedJobRef = useRef<string | null>(null);
+
+  // Kept in a ref so a new callback from the parent doesn't re-run the effects below
+  const onSyncCompleteRef = useRef(onSyncComplete);
   useEffect(() => {
-    fetchSyncStatus();
-  }, []);
+    onSyncCompleteRef.current = onSyncComplete;
+  }, [onSyncComplete]);
 
-  const fetchSyncStatus = async () => {
+  const fetchSyncStatus = useCallback(async (): Promise<SyncStatusData | null> => {
     try {
       const response = await fetch("/api/sync");
       const data = await response.json();
       setStatus(data);
+      return data;
     } catch (err) {
       console.error("Failed to fetch sync status:", err);
+      return null;
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
 
-  const handleSync = async (fullSync = false, resume = false) => {
-    setSyncing(true);
+  const resetProgress = () => {
     setError(null);
     setMessage(null);
     setProgress(0);
-    setCurrentRepo("");
+    setPausedUntil(null);
     setTotalSynced(0);
     setRepoProgress([]);
     setSkippedCount(0);
+  };
+
+  const handleSync = async (fullSync = false, resume = false) => {
+    setSyncing(true);
+    resetProgress();
 
     try {
-      const response = await fetch("/api/sync/stream", {
+      const response = await fetch("/api/sync/jobs", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ fullSync, resume }),
       });
 
-      // Check if it's a JSON response (e.g., all repos skipped)
-      const contentType = response.headers.get('content-type');
-      if (contentType?.includes('application/json')) {
-        const data = await response.json();
-        if (data.message) {
-          setMessage(data.message);
-          setSkippedCount(data.skippedCount || 0);
-          await fetchSyncStatus();
-          return;
-        }
-        if (data.error) {
-          throw new Error(data.error);
-        }
-      }
-
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+      const data = await response.json();
 
-      if (!reader) {
-        throw new Error("No response body");
+      // Another sync is already running: follow that one instead
+      if (response.status === 409 && data.job) {
+        await attachToJob(data.job.id);
+        return;
       }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const text = decoder.decode(value);
-        const lines = text.split('\n');
+      if (data.error) {
+        throw new Error(data.error);
+      }
 
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              handleStreamEvent(data);
-            } catch {
-              // Ignore parse errors
-            }
-          }
-        }
+      // Nothing to do (e.g., all repos skipped)
+      if (data.message) {
+        setMessage(data.message);
+        setSkippedCount(data.skippedCount || 0);
+        await fetchSyncStatus();
+        setSyncing(false);
+        return;
       }
 
-      await fetchSyncStatus();
-      onSyncComplete?.();
+      await attachToJob(data.job.id);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Sync failed");
-    } finally {
       setSyncing(false);
     }
   };
 
-  const handleStreamEvent = (data: any) => {
+  const handleStreamEvent = useCallback((data: any) => {
     switch (data.type) {
       case 'start':
         setRepoProgress(
@@ -139,7 +140,6 @@ export function SyncStatus({ onSyncComplete }: SyncStatusProps) {
         break;
 
       case 'repo_start':
-        setCurrentRepo(data.repo);
         setProgress(data.progress);
         setRepoProgress((prev) =>
           prev.map((r) =>
@@ -149,6 +149,7 @@ export function SyncStatus({ onSyncComplete }: SyncStatusProps) {
         break;
 
       case 'repo_progress':
+        setPausedUntil(null);
         setRepoProgress((prev) =>
           prev.map((r) =>
             r.repo === data.repo ? { ...r, fetched: data.fetched } : r
@@ -180,18 +181,119 @@ export function SyncStatus({ onSyncComplete }: SyncStatusProps) {
         break;
 
       case 'rate_limited':
-        setError(`Rate limited: ${data.message}`);
+        // The sync pauses until the rate limit resets, then continues by itself
+        setPausedUntil(data.resumeAt);
+        break;
+
+      case 'cancelled':
+        setMessage("Sync cancelled. PRs fetched so far were kept and the next sync resumes where it stopped.");
         break;
 
       case 'complete':
         setProgress(100);
-        setCurrentRepo("");
+        setPausedUntil(null);
         setTotalSynced(data.totalSynced);
         break;
     }
+  }, []);
+
+  const attachToJob = useCallback(async (id: string) => {
+    if (attachedJobRef.current === id) return;
+    attachedJobRef.current = id;
+
+    setJobId(id);
+    setSyncing(true);
+
+    try {
+      const response = await fetch(`/api/sync/stream?jobId=${encodeURIComponent(id)}`);
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to follow sync job");
+      }
+
+      const reader = response.body?.getReader();
+      const decoder = new TextDecoder();
+
+      if (!reader) {
+        throw new Error("No response body");
+      }
+
+      // Events may be split across chunks, so only parse complete lines
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          if (line.startsWith('data: ')) {
+            try {
+              const data = JSON.parse(line.slice(6));
+              handleStreamEvent(data);
+            } catch {
+              // Ignore parse errors
+            }
+          }
+        }
+      }
+
+      await fetchSyncStatus();
+      onSyncCompleteRef.current?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sync failed");
+    } finally {
+      attachedJobRef.current = null;
+      setJobId(null);
+      setCancelling(false);
+      setSyncing(false);
+    }
+  }, [fetchSyncStatus, handleStreamEvent]);
+
+  useEffect(() => {
+    fetchSyncStatus().then((data) => {
+      // Reattach to a sync that is still running (e.g. after a page reload)
+      if (data?.activeJob) {
+        attachToJob(data.activeJob.id);
+      }
+    });
+  }, [fetchSyncStatus, attachToJob]);
+
+  const handleCancel = async () => {
+    if (!jobId) return;
+
+    setCancelling(true);
+    try {
+      const response = await fetch(`/api/sync/jobs/${encodeURIComponent(jobId)}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to cancel sync");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel sync");
+      setCancelling(false);
+    }
   };
 
   const totalCached = status?.totalCachedPRs || 0;
+  const syncingRepos = repoProgress.filter((r) => r.status === 'syncing').map((r) => r.repo);
+
+  const schedules = status?.schedules || [];
+  const nextScheduledRun = schedules
+    .map((s) => s.nextRunAt)
+    .filter((date): date is string => date !== null)
+    .sort()[0];
+  const lastScheduledRun = schedules
+    .map((s) => s.lastRun)
+    .filter((run): run is NonNullable<ScheduleStatus["lastRun"]> => run !== null)
+    .sort((a, b) => b.finishedAt.localeCompare(a.finishedAt))[0];
+  const scheduleErrors = schedules.filter((s) => s.error).map((s) => s.error);
 
   const formatLastSync = (dateStr: string | null) => {
     if (!dateStr) return "Never";
@@ -235,9 +337,41 @@ export function SyncStatus({ onSyncComplete }: SyncStatusProps) {
                   No data cached yet
                 </span>
               )}
+              {nextScheduledRun && (
+                <span
+                  className="flex items-center gap-1 mt-1"
+                  title={lastScheduledRun ? `Last scheduled sync ${lastScheduledRun.status}${lastScheduledRun.error ? `: ${lastScheduledRun.error}` : ""}` : undefined}
+                >
+                  <Clock className="h-3 w-3" />
+                  Next sync {formatDistanceToNow(new Date(nextScheduledRun), { addSuffix: true })}
+                  {lastScheduledRun && ` · last ${lastScheduledRun.status} ${formatLastSync(lastScheduledRun.finishedAt)}`}
+                </span>
+              )}
+              {scheduleErrors.map((scheduleError) => (
+                <span key={scheduleError} className="flex items-center gap-1 mt-1 text-red-600">
+                  <AlertCircle className="h-3 w-3" />
+                  {scheduleError}
+                </span>
+              ))}
             </CardDescription>
           </div>
           <div className="flex gap-2">
+            {syncing && jobId && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleCancel}
+                disabled={cancelling}
+                title="Stop the running sync"
+              >
+                {cancelling ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <XCircle className="h-4 w-4" />
+                )}
+                <span className="ml-2 hidden sm:inline">Cancel</span>
+              </Button>
+            )}
             <Button
               size="sm"
               variant="outline"
@@ -257,7 +391,7 @@ export function SyncStatus({ onSyncComplete }: SyncStatusProps) {
               variant="outline"
               onClick={() => handleSync(true, true)}
               disabled={syncing}
-              title="Resume full sync, skip repos synced in the last hour"
+              title="Resume full sync, skip repos synced in the last hour and continue partially synced repos"
             >
               Resume
             </Button>
@@ -294,10 +428,16 @@ export function SyncStatus({ onSyncComplete }: SyncStatusProps) {
           <div className="mb-3 space-y-2">
             <div className="flex items-center justify-between text-sm">
               <span className="text-muted-foreground">
-                {currentRepo ? (
+                {pausedUntil ? (
+                  <span className="flex items-center gap-2 text-yellow-600">
+                    <Clock className="h-3 w-3" />
+                    Rate limited, resuming {formatDistanceToNow(new Date(pausedUntil), { addSuffix: true })}
+                  </span>
+                ) : syncingRepos.length > 0 ? (
                   <span className="flex items-center gap-2">
                     <Loader2 className="h-3 w-3 animate-spin" />
-                    Syncing: <span className="font-medium">{currentRepo}</span>
+                    Syncing: <span className="font-medium">{syncingRepos[0]}</span>
+                    {syncingRepos.length > 1 && <span>+{syncingRepos.length - 1} more</span>}
                   </span>
                 ) : (
                   "Preparing..."
@@ -371,6 +511,11 @@ export function SyncStatus({ onSyncComplete }: SyncStatusProps) {
                   {repo.prCount > 0 && (
                     <span>{repo.prCount} PRs</span>
                   )}
+                  {repo.coveredSince && (
+                    <span title={`Horizon: ${format(new Date(repo.syncHorizon), "MMM d, yyyy")}`}>
+                      since {format(new Date(repo.coveredSince), "MMM yyyy")}
+                    </span>
+                  )}
                   <span className="flex items-center gap-1">
                     <Clock className="h-3 w-3" />
                     {formatLastSync(repo.lastSyncedAt)}
@@ -384,6 +529,7 @@ export function SyncStatus({ onSyncComplete }: SyncStatusProps) {
         <p className="text-xs text-muted-foreground mt-3">
           <strong>Quick Sync:</strong> Fetches recent changes.{" "}
           <strong>Full Sync:</strong> Fetches all historical data.
+          Syncs keep running in the background if you close this page.
         </p>
       </CardContent>
     </Card>
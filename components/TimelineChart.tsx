@@ -1,7 +1,7 @@
 "use client";
 
-import { TimelineData } from "@/types";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DateField, ReleaseStats, TimelineData } from "@/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   AreaChart,
   Area,
@@ -11,16 +11,23 @@ import {
   Tooltip,
   ResponsiveContainer,
   Legend,
+  ReferenceLine,
 } from "recharts";
 import { getSizeColor } from "@/lib/analyzer";
+import { DATE_FIELD_LABELS } from "@/components/DateFieldSelect";
 import { format, parseISO } from "date-fns";
 
 interface TimelineChartProps {
   data: TimelineData[];
+  dateField?: DateField;
+  releases?: ReleaseStats[];
   loading?: boolean;
 }
 
-export function TimelineChart({ data, loading }: TimelineChartProps) {
+// Above this many marked intervals, release labels would overlap
+const MAX_LABELLED_RELEASES = 20;
+
+export function TimelineChart({ data, dateField, releases = [], loading }: TimelineChartProps) {
   if (loading) {
     return (
       <Card>
@@ -60,10 +67,22 @@ export function TimelineChart({ data, loading }: TimelineChartProps) {
     }
   };
 
+  // One marker per interval, labelled with its first release
+  const markers = new Map<string, ReleaseStats[]>();
+  for (const release of releases) {
+    markers.set(release.timelineDate, [...(markers.get(release.timelineDate) || []), release]);
+  }
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>PR Activity Timeline</CardTitle>
+        {dateField && (
+          <CardDescription>
+            PRs by {DATE_FIELD_LABELS[dateField].toLowerCase()} date
+            {releases.length > 0 && `, with ${releases.length} ${releases.length === 1 ? "release" : "releases"} marked`}
+          </CardDescription>
+        )}
       </CardHeader>
       <CardContent>
         <div className="h-[300px]">
@@ -140,6 +159,21 @@ export function TimelineChart({ data, loading }: TimelineChartProps) {
                 fill={getSizeColor("XS")}
                 fillOpacity={0.6}
               />
+              {Array.from(markers.entries()).map(([date, dateReleases]) => (
+                <ReferenceLine
+                  key={date}
+                  x={date}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeDasharray="4 2"
+                  label={markers.size <= MAX_LABELLED_RELEASES ? {
+                    value: dateReleases.length > 1
+                      ? `${dateReleases[0].tagName} +${dateReleases.length - 1}`
+                      : dateReleases[0].tagName,
+                    position: "top",
+                    fontSize: 10,
+                  } : undefined}
+                />
+              ))}
             </AreaChart>
           </ResponsiveContainer>
         </div>
@@ -0,0 +1,15 @@
+export async function register() {
+  // SQLite and timers are only available in the Node.js server runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { migrateDatabase } = await import('./lib/database');
+    try {
+      migrateDatabase();
+    } catch (error) {
+      // Reported by GET /api/admin/db; database calls retry the migration
+      console.error('Database migration failed:', error);
+    }
+
+    const { startSyncScheduler } = await import('./lib/schedule');
+    startSyncScheduler();
+  }
+}
@@ -0,0 +1,25 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Check that a request to an admin endpoint carries `Authorization: Bearer
+ * <ADMIN_TOKEN>`. Returns the error response to send, or null if it does.
+ * Endpoints guarded by this refuse every request while ADMIN_TOKEN is unset.
+ */
+export function checkAdminToken(request: NextRequest): NextResponse | null {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json(
+      { error: 'Admin endpoints not configured. Set ADMIN_TOKEN in .env' },
+      { status: 500 }
+    );
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return NextResponse.json({ error: 'Invalid or missing admin token' }, { status: 401 });
+  }
+
+  return null;
+}
@@ -1,4 +1,36 @@
-import { PRSize, PullRequest, ContributorStats, ReviewerStats, AnalysisResult, TimelineData } from '@/types';
+import {
+  PRSize,
+  PullRequest,
+  ContributorStats,
+  ReviewerStats,
+  AnalysisResult,
+  TimelineData,
+  DateField,
+  PullRequestFile,
+  PathStats,
+  PRBreakdowns,
+  PRFlowMetrics,
+  FlowMetric,
+  DurationStats,
+  FlowStats,
+  FlowSummary,
+  FlowTrendPoint,
+  RepoFlowStats,
+  ReviewerFlowStats,
+  CIPassStats,
+  CISummary,
+  RedMergedPR,
+  Attribution,
+  IssueSummary,
+  IssueType,
+  LinkedIssue,
+  Release,
+  ReleaseSummary,
+  Deployment,
+  DoraSource,
+  DoraStats,
+  DoraSummary,
+} from '@/types';
 import { format, parseISO, eachDayOfInterval, eachWeekOfInterval, eachMonthOfInterval, differenceInDays } from 'date-fns';
 
 export function calculatePRSize(additions: number, deletions: number, filesChanged: number): PRSize {
@@ -154,58 +186,81 @@ export function getComplexityBgClass(score: number): string {
   return 'bg-red-100 text-red-800';
 }
 
-export function aggregateByContributor(prs: PullRequest[]): ContributorStats[] {
-  const contributorMap = new Map<string, ContributorStats & { languageLines: Record<string, number> }>();
+/**
+ * Get everyone credited for a PR. With co-author attribution, commit authors
+ * and Co-authored-by trailers share the credit with the PR author.
+ */
+export function getPRCredits(pr: PullRequest, attribution: Attribution = 'author'): string[] {
+  if (attribution === 'author') return [pr.author];
+  return [pr.author, ...(pr.coAuthors || []).filter((login) => login !== pr.author)];
+}
+
+const NOREPLY_EMAIL = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i;
+
+/**
+ * Resolve a commit author or co-author to a GitHub login: from GitHub's
+ * noreply address, or from commits where GitHub matched the same email to a
+ * user. Falls back to the name in the commit.
+ */
+export function resolveCommitAuthor(name: string, email: string, loginsByEmail: Map<string, string>): string {
+  const noreply = email.match(NOREPLY_EMAIL);
+  if (noreply) return noreply[1];
+  return loginsByEmail.get(email.toLowerCase()) || name;
+}
+
+export function aggregateByContributor(prs: PullRequest[], attribution: Attribution = 'author'): ContributorStats[] {
+  const contributorMap = new Map<string, ContributorStats & { languageLines: Record<string, number>; commits: number }>();
 
   for (const pr of prs) {
-    const existing = contributorMap.get(pr.author);
+    // Each credited contributor gets an equal share of the PR and its lines
+    const credits = getPRCredits(pr, attribution);
+    const share = 1 / credits.length;
 
-    if (existing) {
-      existing.totalPRs++;
-      if (pr.state === 'merged') existing.mergedPRs++;
-      existing.sizeDistribution[pr.size]++;
-      existing.additions += pr.additions;
-      existing.deletions += pr.deletions;
+    for (const username of credits) {
+      let existing = contributorMap.get(username);
+      if (!existing) {
+        existing = {
+          username,
+          avatar: username === pr.author ? pr.authorAvatar : '',
+          totalPRs: 0,
+          mergedPRs: 0,
+          sizeDistribution: { 'XS': 0, 'S': 0, 'M': 0, 'L': 0, 'XL': 0, 'XXL': 0 },
+          additions: 0,
+          deletions: 0,
+          prs: [],
+          languageLines: {},
+          commits: 0,
+        };
+        contributorMap.set(username, existing);
+      }
+
+      // Contributors first seen as co-authors pick up their avatar from their own PRs
+      if (!existing.avatar && username === pr.author) {
+        existing.avatar = pr.authorAvatar;
+      }
+
+      existing.totalPRs += share;
+      if (pr.state === 'merged') existing.mergedPRs += share;
+      existing.sizeDistribution[pr.size] += share;
+      existing.additions += pr.additions * share;
+      existing.deletions += pr.deletions * share;
+      existing.commits += pr.commitCount || 0;
       existing.prs.push(pr);
 
       // Aggregate language lines
       if (pr.languages) {
-        const prLines = pr.additions + pr.deletions;
+        const prLines = (pr.additions + pr.deletions) * share;
         for (const [lang, pct] of Object.entries(pr.languages)) {
           const lines = Math.round((pct / 100) * prLines);
           existing.languageLines[lang] = (existing.languageLines[lang] || 0) + lines;
         }
       }
-    } else {
-      const languageLines: Record<string, number> = {};
-      if (pr.languages) {
-        const prLines = pr.additions + pr.deletions;
-        for (const [lang, pct] of Object.entries(pr.languages)) {
-          languageLines[lang] = Math.round((pct / 100) * prLines);
-        }
-      }
-
-      contributorMap.set(pr.author, {
-        username: pr.author,
-        avatar: pr.authorAvatar,
-        totalPRs: 1,
-        mergedPRs: pr.state === 'merged' ? 1 : 0,
-        sizeDistribution: {
-          'XS': pr.size === 'XS' ? 1 : 0,
-          'S': pr.size === 'S' ? 1 : 0,
-          'M': pr.size === 'M' ? 1 : 0,
-          'L': pr.size === 'L' ? 1 : 0,
-          'XL': pr.size === 'XL' ? 1 : 0,
-          'XXL': pr.size === 'XXL' ? 1 : 0,
-        },
-        additions: pr.additions,
-        deletions: pr.deletions,
-        prs: [pr],
-        languageLines,
-      });
     }
   }
 
+  // Shared credit leaves fractions; keep two decimals
+  const round = (n: number) => Math.round(n * 100) / 100;
+
   // Convert language lines to percentages for each contributor
   const contributors: ContributorStats[] = [];
   for (const data of Array.from(contributorMap.values())) {
@@ -223,17 +278,24 @@ export function aggregateByContributor(prs: PullRequest[]): ContributorStats[] {
       ? Math.round(data.prs.reduce((sum, pr) => sum + (pr.complexity || 0), 0) / data.prs.length)
       : undefined;
 
+    const sizeDistribution = { ...data.sizeDistribution };
+    for (const size of Object.keys(sizeDistribution) as PRSize[]) {
+      sizeDistribution[size] = round(sizeDistribution[size]);
+    }
+
     contributors.push({
       username: data.username,
       avatar: data.avatar,
-      totalPRs: data.totalPRs,
-      mergedPRs: data.mergedPRs,
-      sizeDistribution: data.sizeDistribution,
-      additions: data.additions,
-      deletions: data.deletions,
+      totalPRs: round(data.totalPRs),
+      mergedPRs: round(data.mergedPRs),
+      sizeDistribution,
+      additions: Math.round(data.additions),
+      deletions: Math.round(data.deletions),
       prs: data.prs,
       languageStats: Object.keys(languageStats).length > 0 ? languageStats : undefined,
       avgComplexity,
+      avgCommitsPerPR: data.prs.length > 0 ? round(data.commits / data.prs.length) : undefined,
+      flow: summarizeFlow(data.prs),
     });
   }
 
@@ -286,42 +348,125 @@ export function aggregateLanguageDistribution(prs: PullRequest[]): Record<string
   return sorted;
 }
 
-export function aggregateByReviewer(prs: PullRequest[]): ReviewerStats[] {
-  const reviewerMap = new Map<string, ReviewerStats>();
+/**
+ * Count PRs by label, target branch, milestone and merge method. A PR counts
+ * once under each of its labels; PRs cached before these fields were synced
+ * don't count under any of them.
+ */
+export function aggregateBreakdowns(prs: PullRequest[]): PRBreakdowns {
+  const breakdowns: PRBreakdowns = { labels: {}, baseRefs: {}, milestones: {}, mergeMethods: {}, drafts: 0 };
+  const increment = (counts: Record<string, number>, key: string) => {
+    counts[key] = (counts[key] || 0) + 1;
+  };
 
   for (const pr of prs) {
-    if (!pr.reviews || pr.reviews.length === 0) continue;
+    for (const label of pr.labels || []) {
+      increment(breakdowns.labels, label);
+    }
+    if (pr.baseRef) increment(breakdowns.baseRefs, pr.baseRef);
+    if (pr.milestone) increment(breakdowns.milestones, pr.milestone);
+    if (pr.mergeMethod) increment(breakdowns.mergeMethods, pr.mergeMethod);
+    if (pr.isDraft) breakdowns.drafts++;
+  }
 
-    for (const review of pr.reviews) {
-      const existing = reviewerMap.get(review.reviewer);
+  return breakdowns;
+}
 
-      if (existing) {
-        existing.totalReviews++;
-        if (review.state === 'APPROVED') existing.approvals++;
-        else if (review.state === 'CHANGES_REQUESTED') existing.changesRequested++;
-        else if (review.state === 'COMMENTED') existing.comments++;
+/**
+ * Get the directory of a file truncated to `depth` segments, e.g.
+ * "substrate/frame/staking/src/lib.rs" at depth 3 is "substrate/frame/staking".
+ * Files in the repository root map to "".
+ */
+export function getPathPrefix(filePath: string, depth: number): string {
+  const directories = filePath.split('/').slice(0, -1);
+  return directories.slice(0, depth).join('/');
+}
 
-        // Track unique PRs reviewed
-        if (!existing.reviewedPRs.includes(pr.number)) {
-          existing.reviewedPRs.push(pr.number);
-        }
-      } else {
-        reviewerMap.set(review.reviewer, {
-          username: review.reviewer,
-          totalReviews: 1,
-          approvals: review.state === 'APPROVED' ? 1 : 0,
-          changesRequested: review.state === 'CHANGES_REQUESTED' ? 1 : 0,
-          comments: review.state === 'COMMENTED' ? 1 : 0,
-          reviewedPRs: [pr.number],
-        });
-      }
+/**
+ * Aggregate changed files by repo and directory prefix: how many PRs touched
+ * each directory, how many lines they changed there, how large those PRs were
+ * overall, and who authored them.
+ */
+export function aggregateByPath(files: PullRequestFile[], depth: number): PathStats[] {
+  const pathMap = new Map<string, PathStats & {
+    prKeys: Set<string>;
+    totalPRLines: number;
+    contributorMap: Map<string, { prKeys: Set<string>; lines: number }>;
+  }>();
+
+  for (const file of files) {
+    const prefix = getPathPrefix(file.path, depth);
+    const key = `${file.repo}:${prefix}`;
+    const prKey = `${file.repo}#${file.number}`;
+    const lines = file.additions + file.deletions;
+
+    let stats = pathMap.get(key);
+    if (!stats) {
+      stats = {
+        repo: file.repo,
+        path: prefix,
+        prCount: 0,
+        fileChanges: 0,
+        additions: 0,
+        deletions: 0,
+        avgPRLines: 0,
+        contributors: [],
+        prKeys: new Set(),
+        totalPRLines: 0,
+        contributorMap: new Map(),
+      };
+      pathMap.set(key, stats);
     }
+
+    stats.fileChanges++;
+    stats.additions += file.additions;
+    stats.deletions += file.deletions;
+
+    if (!stats.prKeys.has(prKey)) {
+      stats.prKeys.add(prKey);
+      stats.totalPRLines += file.prLines;
+    }
+
+    const contributor = stats.contributorMap.get(file.author) || { prKeys: new Set<string>(), lines: 0 };
+    contributor.prKeys.add(prKey);
+    contributor.lines += lines;
+    stats.contributorMap.set(file.author, contributor);
   }
 
-  return Array.from(reviewerMap.values()).sort((a, b) => b.totalReviews - a.totalReviews);
+  return Array.from(pathMap.values())
+    .map(({ prKeys, totalPRLines, contributorMap, ...stats }) => ({
+      ...stats,
+      prCount: prKeys.size,
+      avgPRLines: Math.round(totalPRLines / prKeys.size),
+      contributors: Array.from(contributorMap.entries())
+        .map(([username, c]) => ({ username, prCount: c.prKeys.size, lines: c.lines }))
+        .sort((a, b) => b.prCount - a.prCount || b.lines - a.lines),
+    }))
+    .sort((a, b) => b.prCount - a.prCount);
+}
+
+/**
+ * Get the date a PR counts under for the chosen analysis dimension, or null if
+ * the PR has no such date (e.g. the merge date of an open PR).
+ */
+export function getPRDate(pr: PullRequest, dateField: DateField): string | null {
+  switch (dateField) {
+    case 'created':
+      return pr.createdAt;
+    case 'merged':
+      return pr.mergedAt;
+    case 'closed':
+      return pr.closedAt;
+    case 'updated':
+      return pr.updatedAt ?? null;
+  }
 }
 
-export function aggregateTimeline(prs: PullRequest[], startDate: Date, endDate: Date): TimelineData[] {
+/**
+ * Split a date range into daily, weekly or monthly intervals depending on its
+ * length, and map dates to the key of the interval they fall in.
+ */
+export function getTimelineIntervals(startDate: Date, endDate: Date): { keys: string[]; getKey: (date: Date) => string } {
   const daysDiff = differenceInDays(endDate, startDate);
 
   let intervals: Date[];
@@ -341,11 +486,27 @@ export function aggregateTimeline(prs: PullRequest[], startDate: Date, endDate:
     formatStr = 'yyyy-MM';
   }
 
+  const getKey = (date: Date): string => {
+    if (daysDiff <= 31 || daysDiff > 180) {
+      return format(date, formatStr);
+    }
+    // Find the week start
+    const weekStart = intervals.find((d, i) => {
+      const nextWeek = intervals[i + 1];
+      return date >= d && (!nextWeek || date < nextWeek);
+    });
+    return weekStart ? format(weekStart, formatStr) : format(date, formatStr);
+  };
+
+  return { keys: intervals.map((date) => format(date, formatStr)), getKey };
+}
+
+export function aggregateTimeline(prs: PullRequest[], startDate: Date, endDate: Date, dateField: DateField = 'created'): TimelineData[] {
+  const { keys, getKey } = getTimelineIntervals(startDate, endDate);
   const timelineMap = new Map<string, TimelineData>();
 
   // Initialize all intervals
-  for (const date of intervals) {
-    const key = format(date, formatStr);
+  for (const key of keys) {
     timelineMap.set(key, {
       date: key,
       count: 0,
@@ -355,23 +516,10 @@ export function aggregateTimeline(prs: PullRequest[], startDate: Date, endDate:
 
   // Aggregate PRs into intervals
   for (const pr of prs) {
-    const prDate = parseISO(pr.createdAt);
-    let key: string;
-
-    if (daysDiff <= 31) {
-      key = format(prDate, formatStr);
-    } else if (daysDiff <= 180) {
-      // Find the week start
-      const weekStart = intervals.find((d, i) => {
-        const nextWeek = intervals[i + 1];
-        return prDate >= d && (!nextWeek || prDate < nextWeek);
-      });
-      key = weekStart ? format(weekStart, formatStr) : format(prDate, formatStr);
-    } else {
-      key = format(prDate, 'yyyy-MM');
-    }
+    const dateStr = getPRDate(pr, dateField);
+    if (!dateStr) continue;
 
-    const existing = timelineMap.get(key);
+    const existing = timelineMap.get(getKey(parseISO(dateStr)));
     if (existing) {
       existing.count++;
       existing[pr.size]++;
@@ -381,36 +529,473 @@ export function aggregateTimeline(prs: PullRequest[], startDate: Date, endDate:
   return Array.from(timelineMap.values()).sort((a, b) => a.date.localeCompare(b.date));
 }
 
+export const FLOW_METRICS: FlowMetric[] = ['timeToFirstReview', 'timeToFirstApproval', 'approvalToMerge', 'cycleTime'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function hoursBetween(from: string, to: string): number {
+  return Math.max(0, (parseISO(to).getTime() - parseISO(from).getTime()) / HOUR_MS);
+}
+
+/**
+ * Calculate how long a PR waited for review and approval and how long it took
+ * to merge. Reviews left by the author (replies to review threads) and
+ * pending reviews don't count.
+ */
+export function calculateFlowMetrics(pr: PullRequest): PRFlowMetrics {
+  const reviews = (pr.reviews || [])
+    .filter((r) => r.reviewer !== pr.author && r.state !== 'PENDING' && r.submittedAt)
+    .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+
+  const firstReview = reviews[0];
+  const firstApproval = reviews.find((r) => r.state === 'APPROVED');
+
+  // Approvals submitted after the merge don't hold it up
+  const mergedAt = pr.mergedAt;
+  const lastApproval = mergedAt
+    ? reviews.filter((r) => r.state === 'APPROVED' && parseISO(r.submittedAt) <= parseISO(mergedAt)).pop()
+    : undefined;
+
+  return {
+    timeToFirstReview: firstReview ? hoursBetween(pr.createdAt, firstReview.submittedAt) : null,
+    timeToFirstApproval: firstApproval ? hoursBetween(pr.createdAt, firstApproval.submittedAt) : null,
+    approvalToMerge: mergedAt && lastApproval ? hoursBetween(lastApproval.submittedAt, mergedAt) : null,
+    cycleTime: mergedAt ? hoursBetween(pr.createdAt, mergedAt) : null,
+  };
+}
+
+/**
+ * Get the value at percentile p (0-100) of sorted values, interpolating
+ * between the closest ranks.
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function summarizeDurations(hours: number[]): DurationStats {
+  const sorted = [...hours].sort((a, b) => a - b);
+  const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+
+  return {
+    count: sorted.length,
+    p50: round(percentile(sorted, 50)),
+    p75: round(percentile(sorted, 75)),
+    p90: round(percentile(sorted, 90)),
+  };
+}
+
+function getFlowMetrics(pr: PullRequest): PRFlowMetrics {
+  return pr.flow ?? calculateFlowMetrics(pr);
+}
+
+/**
+ * Percentiles of each flow metric across PRs, skipping PRs that haven't
+ * reached the milestones a metric measures.
+ */
+export function summarizeFlow(prs: PullRequest[]): FlowStats {
+  const metrics = prs.map(getFlowMetrics);
+  const summary = {} as FlowStats;
+
+  for (const metric of FLOW_METRICS) {
+    const values = metrics
+      .map((m) => m[metric])
+      .filter((value): value is number => value !== null);
+    summary[metric] = summarizeDurations(values);
+  }
+
+  return summary;
+}
+
+/**
+ * Aggregate flow metrics overall, per repo and per reviewer, with the median
+ * of each metric over the same intervals as the PR timeline.
+ */
+export function aggregateFlow(prs: PullRequest[], startDate: Date, endDate: Date, dateField: DateField = 'created'): FlowSummary {
+  // Repos
+  const repoMap = new Map<string, PullRequest[]>();
+  for (const pr of prs) {
+    const repoPRs = repoMap.get(pr.repo) || [];
+    repoPRs.push(pr);
+    repoMap.set(pr.repo, repoPRs);
+  }
+
+  const byRepo: RepoFlowStats[] = Array.from(repoMap.entries())
+    .map(([repo, repoPRs]) => ({ repo, prCount: repoPRs.length, metrics: summarizeFlow(repoPRs) }))
+    .sort((a, b) => b.prCount - a.prCount);
+
+  // Reviewers: how long after a PR opened each reviewer first reviewed and approved it
+  const reviewerMap = new Map<string, { prs: number; review: number[]; approval: number[] }>();
+  for (const pr of prs) {
+    const firstReviews = new Map<string, { review?: string; approval?: string }>();
+    for (const review of pr.reviews || []) {
+      if (review.reviewer === pr.author || review.state === 'PENDING' || !review.submittedAt) continue;
+
+      const first = firstReviews.get(review.reviewer) || {};
+      if (!first.review || review.submittedAt < first.review) {
+        first.review = review.submittedAt;
+      }
+      if (review.state === 'APPROVED' && (!first.approval || review.submittedAt < first.approval)) {
+        first.approval = review.submittedAt;
+      }
+      firstReviews.set(review.reviewer, first);
+    }
+
+    for (const [reviewer, first] of Array.from(firstReviews.entries())) {
+      const stats = reviewerMap.get(reviewer) || { prs: 0, review: [], approval: [] };
+      stats.prs++;
+      if (first.review) stats.review.push(hoursBetween(pr.createdAt, first.review));
+      if (first.approval) stats.approval.push(hoursBetween(pr.createdAt, first.approval));
+      reviewerMap.set(reviewer, stats);
+    }
+  }
+
+  const byReviewer: ReviewerFlowStats[] = Array.from(reviewerMap.entries())
+    .map(([username, stats]) => ({
+      username,
+      reviewedPRs: stats.prs,
+      timeToReview: summarizeDurations(stats.review),
+      timeToApproval: summarizeDurations(stats.approval),
+    }))
+    .sort((a, b) => b.reviewedPRs - a.reviewedPRs);
+
+  // Trend
+  const { keys, getKey } = getTimelineIntervals(startDate, endDate);
+  const intervalPRs = new Map<string, PullRequest[]>(keys.map((key) => [key, []]));
+  for (const pr of prs) {
+    const dateStr = getPRDate(pr, dateField);
+    if (!dateStr) continue;
+    intervalPRs.get(getKey(parseISO(dateStr)))?.push(pr);
+  }
+
+  const trend: FlowTrendPoint[] = keys.map((key) => {
+    const stats = summarizeFlow(intervalPRs.get(key) || []);
+    return {
+      date: key,
+      count: intervalPRs.get(key)?.length || 0,
+      timeToFirstReview: stats.timeToFirstReview.p50,
+      timeToFirstApproval: stats.timeToFirstApproval.p50,
+      approvalToMerge: stats.approvalToMerge.p50,
+      cycleTime: stats.cycleTime.p50,
+    };
+  });
+
+  return { overall: summarizeFlow(prs), byRepo, byReviewer, trend };
+}
+
+// Checks that ended in any of these count against a PR
+const FAILED_CHECK_CONCLUSIONS = ['failure', 'error', 'timed_out', 'cancelled', 'action_required', 'startup_failure'];
+
+function summarizeCI(prs: PullRequest[]): CIPassStats {
+  const passed = prs.filter((pr) => pr.ciState === 'success').length;
+  const failed = prs.filter((pr) => pr.ciState === 'failure' || pr.ciState === 'error').length;
+  const withCI = passed + failed;
+
+  return {
+    withCI,
+    passed,
+    failed,
+    passRate: withCI > 0 ? Math.round((passed / withCI) * 100) : null,
+  };
+}
+
+/**
+ * CI pass rate of PR head commits overall, by size, by repo and over time,
+ * plus merged PRs whose head commit was failing. PRs with checks still
+ * running, or no checks at all, don't count towards pass rates.
+ */
+export function aggregateCI(prs: PullRequest[], startDate: Date, endDate: Date, dateField: DateField = 'created'): CISummary {
+  const sizes: PRSize[] = ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
+  const bySize = {} as Record<PRSize, CIPassStats>;
+  for (const size of sizes) {
+    bySize[size] = summarizeCI(prs.filter((pr) => pr.size === size));
+  }
+
+  const repos = Array.from(new Set(prs.map((pr) => pr.repo)));
+  const byRepo = repos
+    .map((repo) => ({ repo, ...summarizeCI(prs.filter((pr) => pr.repo === repo)) }))
+    .sort((a, b) => b.withCI - a.withCI);
+
+  const { keys, getKey } = getTimelineIntervals(startDate, endDate);
+  const intervalPRs = new Map<string, PullRequest[]>(keys.map((key) => [key, []]));
+  for (const pr of prs) {
+    const dateStr = getPRDate(pr, dateField);
+    if (!dateStr) continue;
+    intervalPRs.get(getKey(parseISO(dateStr)))?.push(pr);
+  }
+  const trend = keys.map((key) => ({ date: key, ...summarizeCI(intervalPRs.get(key) || []) }));
+
+  const redMerged: RedMergedPR[] = prs
+    .filter((pr) => pr.state === 'merged' && pr.mergedAt && (pr.ciState === 'failure' || pr.ciState === 'error'))
+    .map((pr) => ({
+      repo: pr.repo,
+      number: pr.number,
+      title: pr.title,
+      author: pr.author,
+      url: pr.url,
+      mergedAt: pr.mergedAt!,
+      ciState: pr.ciState!,
+      failedChecks: (pr.checks || [])
+        .filter((check) => check.conclusion && FAILED_CHECK_CONCLUSIONS.includes(check.conclusion))
+        .map((check) => check.name),
+    }))
+    .sort((a, b) => b.mergedAt.localeCompare(a.mergedAt));
+
+  return { overall: summarizeCI(prs), bySize, byRepo, trend, redMerged };
+}
+
+// Labels marking an issue as a bug or feature request, e.g. "bug", "I2-bug", "enhancement"
+const ISSUE_TYPE_LABELS: Array<[IssueType, RegExp]> = [
+  ['bug', /bug|defect|regression/i],
+  ['feature', /feature|enhancement/i],
+];
+
+export function getIssueType(issue: LinkedIssue): IssueType {
+  for (const [type, pattern] of ISSUE_TYPE_LABELS) {
+    if (issue.labels.some((label) => pattern.test(label))) return type;
+  }
+  return 'other';
+}
+
+/**
+ * Summarize the issues PRs close: how many PRs close one, how long after the
+ * issue was opened the fix merged, and whether the issues were bugs or
+ * features. Lead time runs from a PR's earliest linked issue; per type it runs
+ * from each issue of that type.
+ */
+export function aggregateIssues(prs: PullRequest[]): IssueSummary {
+  const types: IssueType[] = ['bug', 'feature', 'other'];
+  const leadTimes: number[] = [];
+  const leadTimesByType: Record<IssueType, number[]> = { bug: [], feature: [], other: [] };
+  const issueTypes: Record<IssueType, number> = { bug: 0, feature: 0, other: 0 };
+  const seenIssues = new Set<string>();
+  let prsClosingIssues = 0;
+
+  for (const pr of prs) {
+    const issues = pr.linkedIssues || [];
+    if (issues.length === 0) continue;
+    prsClosingIssues++;
+
+    for (const issue of issues) {
+      const type = getIssueType(issue);
+      const key = `${issue.repo}#${issue.number}`;
+      if (!seenIssues.has(key)) {
+        seenIssues.add(key);
+        issueTypes[type]++;
+      }
+      if (pr.mergedAt) {
+        leadTimesByType[type].push(hoursBetween(issue.createdAt, pr.mergedAt));
+      }
+    }
+
+    if (pr.mergedAt) {
+      const earliest = issues.reduce((min, issue) => (issue.createdAt < min ? issue.createdAt : min), issues[0].createdAt);
+      leadTimes.push(hoursBetween(earliest, pr.mergedAt));
+    }
+  }
+
+  const leadTimeByType = {} as Record<IssueType, DurationStats>;
+  for (const type of types) {
+    leadTimeByType[type] = summarizeDurations(leadTimesByType[type]);
+  }
+
+  return {
+    prsClosingIssues,
+    closingShare: prs.length > 0 ? Math.round((prsClosingIssues / prs.length) * 100) : 0,
+    leadTime: summarizeDurations(leadTimes),
+    leadTimeByType,
+    issueTypes,
+  };
+}
+
+/**
+ * Summarize when merged PRs shipped: how long after merging they were
+ * released, how many are still unreleased, and how many PRs each release in
+ * the range shipped. Releases carry the timeline interval they fall in so
+ * they can be marked on the timeline.
+ */
+export function aggregateReleases(prs: PullRequest[], releases: Release[], startDate: Date, endDate: Date): ReleaseSummary {
+  const merged = prs.filter((pr) => pr.state === 'merged' && pr.mergedAt);
+  const released = merged.filter((pr) => pr.releasedAt);
+
+  const prCounts = new Map<string, number>();
+  for (const pr of released) {
+    const key = `${pr.repo}:${pr.releaseTag}`;
+    prCounts.set(key, (prCounts.get(key) || 0) + 1);
+  }
+
+  const { getKey } = getTimelineIntervals(startDate, endDate);
+
+  return {
+    releasedPRs: released.length,
+    unreleasedPRs: merged.length - released.length,
+    leadTimeToRelease: summarizeDurations(released.map((pr) => hoursBetween(pr.mergedAt!, pr.releasedAt!))),
+    releases: releases.map((release) => ({
+      ...release,
+      prCount: prCounts.get(`${release.repo}:${release.tagName}`) || 0,
+      timelineDate: getKey(parseISO(release.publishedAt)),
+    })),
+  };
+}
+
+// A deployment as DORA metrics see it: a finished GitHub deployment, or a release
+interface DoraEvent {
+  repo: string;
+  environment: string;
+  source: DoraSource;
+  at: string;
+  failed: boolean;
+}
+
+// Hours from the first failure of each streak to the next successful deployment to that environment
+function getRestoreTimes(events: DoraEvent[]): number[] {
+  const streakStarts = new Map<string, string>();
+  const hours: number[] = [];
+
+  for (const event of [...events].sort((a, b) => a.at.localeCompare(b.at))) {
+    const key = `${event.repo}:${event.environment}`;
+    const streakStart = streakStarts.get(key);
+    if (event.failed) {
+      if (!streakStart) streakStarts.set(key, event.at);
+    } else if (streakStart) {
+      hours.push(hoursBetween(streakStart, event.at));
+      streakStarts.delete(key);
+    }
+  }
+
+  return hours;
+}
+
+function summarizeDora(events: DoraEvent[], leadTimes: number[], weeks: number): DoraStats {
+  const deployments = events.filter((event) => !event.failed).length;
+  const failedDeployments = events.filter((event) => event.failed).length;
+  // Releases never fail, so only deployments count towards the failure rate
+  const tracked = events.filter((event) => event.source === 'deployments').length;
+
+  return {
+    deployments,
+    deploymentsPerWeek: Math.round((deployments / weeks) * 10) / 10,
+    leadTime: summarizeDurations(leadTimes),
+    failedDeployments,
+    changeFailureRate: tracked > 0 ? Math.round((failedDeployments / tracked) * 1000) / 10 : null,
+    timeToRestore: summarizeDurations(getRestoreTimes(events)),
+  };
+}
+
+/**
+ * Calculate the DORA metrics: deployment frequency, lead time from a PR's
+ * first commit to the deployment that shipped it, change failure rate and
+ * time to restore. Repos with no deployments in the range use their releases
+ * (pre-releases aside) instead, which have no failures to report.
+ */
+export function aggregateDora(
+  prs: PullRequest[],
+  deployments: Deployment[],
+  releases: Release[],
+  startDate: Date,
+  endDate: Date
+): DoraSummary {
+  const weeks = Math.max(1, (endDate.getTime() - startDate.getTime()) / (7 * 24 * HOUR_MS));
+  const repos = Array.from(new Set([...prs, ...deployments, ...releases].map((item) => item.repo)));
+
+  const events: DoraEvent[] = [];
+  const leadTimes: number[] = [];
+  const byRepo: DoraSummary['byRepo'] = [];
+
+  for (const repo of repos) {
+    const repoDeployments = deployments.filter((d) => d.repo === repo && d.state !== 'pending' && d.finishedAt);
+    const source: DoraSource = repoDeployments.length > 0 ? 'deployments' : 'releases';
+
+    const repoEvents: DoraEvent[] = source === 'deployments'
+      ? repoDeployments.map((d) => ({ repo, environment: d.environment, source, at: d.finishedAt!, failed: d.state === 'failure' }))
+      : releases
+        .filter((r) => r.repo === repo && !r.isPrerelease)
+        .map((r) => ({ repo, environment: '', source, at: r.publishedAt, failed: false }));
+    if (repoEvents.length === 0) continue;
+
+    const repoLeadTimes = prs
+      .filter((pr) => pr.repo === repo && pr.state === 'merged')
+      .map((pr) => ({ start: pr.firstCommitAt || pr.createdAt, end: source === 'deployments' ? pr.deployedAt : pr.releasedAt }))
+      .filter(({ end }) => end)
+      .map(({ start, end }) => hoursBetween(start, end!));
+
+    events.push(...repoEvents);
+    leadTimes.push(...repoLeadTimes);
+    byRepo.push({ repo, source, ...summarizeDora(repoEvents, repoLeadTimes, weeks) });
+  }
+
+  const { keys, getKey } = getTimelineIntervals(startDate, endDate);
+  const trend = new Map(keys.map((key) => [key, { date: key, deployments: 0, failures: 0 }]));
+  for (const event of events) {
+    const point = trend.get(getKey(parseISO(event.at)));
+    if (!point) continue;
+    if (event.failed) {
+      point.failures++;
+    } else {
+      point.deployments++;
+    }
+  }
+
+  return {
+    overall: summarizeDora(events, leadTimes, weeks),
+    byRepo: byRepo.sort((a, b) => b.deployments - a.deployments),
+    trend: Array.from(trend.values()),
+    deployments,
+  };
+}
+
+/**
+ * Format a duration in hours as minutes, hours or days, e.g. "45m", "5.2h", "3.1d"
+ */
+export function formatDuration(hours: number | null | undefined): string {
+  if (hours === null || hours === undefined) return '-';
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
+
 export function analyzeResults(
   prs: PullRequest[],
+  reviewers: ReviewerStats[],
   repos: string[],
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  dateField: DateField = 'created',
+  attribution: Attribution = 'author',
+  releases: Release[] = [],
+  deployments: Deployment[] = []
 ): AnalysisResult {
-  // Calculate complexity for each PR
+  // Calculate complexity and flow metrics for each PR
   const prsWithComplexity = prs.map(pr => ({
     ...pr,
     complexity: pr.complexity ?? calculateComplexity(pr),
+    flow: pr.flow ?? calculateFlowMetrics(pr),
   }));
 
   const mergedPRs = prsWithComplexity.filter(pr => pr.state === 'merged').length;
   const openPRs = prsWithComplexity.filter(pr => pr.state === 'open').length;
   const closedPRs = prsWithComplexity.filter(pr => pr.state === 'closed').length;
 
-  const contributors = aggregateByContributor(prsWithComplexity);
-  const reviewers = aggregateByReviewer(prsWithComplexity);
+  const contributors = aggregateByContributor(prsWithComplexity, attribution);
   const sizeDistribution = aggregateSizeDistribution(prsWithComplexity);
   const languageDistribution = aggregateLanguageDistribution(prsWithComplexity);
-  const timeline = aggregateTimeline(prsWithComplexity, startDate, endDate);
+  const timeline = aggregateTimeline(prsWithComplexity, startDate, endDate, dateField);
 
-  // Calculate total reviews
-  const totalReviews = prsWithComplexity.reduce((sum, pr) => sum + (pr.reviewCount || 0), 0);
+  const totalReviews = reviewers.reduce((sum, r) => sum + r.totalReviews, 0);
 
   // Calculate average complexity
   const avgComplexity = prsWithComplexity.length > 0
     ? Math.round(prsWithComplexity.reduce((sum, pr) => sum + (pr.complexity || 0), 0) / prsWithComplexity.length)
     : 0;
 
+  const avgCommitsPerPR = prsWithComplexity.length > 0
+    ? Math.round((prsWithComplexity.reduce((sum, pr) => sum + (pr.commitCount || 0), 0) / prsWithComplexity.length) * 10) / 10
+    : 0;
+
   return {
     totalPRs: prsWithComplexity.length,
     mergedPRs,
@@ -422,7 +1007,15 @@ export function analyzeResults(
     contributors,
     reviewers,
     totalReviews,
+    breakdowns: aggregateBreakdowns(prsWithComplexity),
+    flow: aggregateFlow(prsWithComplexity, startDate, endDate, dateField),
+    ci: aggregateCI(prsWithComplexity, startDate, endDate, dateField),
+    issues: aggregateIssues(prsWithComplexity),
+    releases: aggregateReleases(prsWithComplexity, releases, startDate, endDate),
+    dora: aggregateDora(prsWithComplexity, deployments, releases, startDate, endDate),
     avgComplexity,
+    avgCommitsPerPR,
+    attribution,
     prs: prsWithComplexity,
     timeline,
     repos,
@@ -430,5 +1023,6 @@ export function analyzeResults(
       start: startDate.toISOString(),
       end: endDate.toISOString(),
     },
+    dateField,
   };
 }
@@ -1,9 +1,75 @@
 import { promises as fs } from 'fs';
 import path from 'path';
+import { subDays, subWeeks, subMonths, subYears } from 'date-fns';
 import { RepoConfig } from '@/types';
 
 const CONFIG_PATH = path.join(process.cwd(), 'config', 'repos.json');
 
+// How far back syncs reach when no horizon is configured
+export const DEFAULT_SYNC_HORIZON = '2025-07-01';
+
+// Deployment environments counted for DORA metrics when none are configured
+export const DEFAULT_DEPLOYMENT_ENVIRONMENTS = ['production', 'prod'];
+
+// owner/repo on GitHub (host/owner/repo on GitHub Enterprise Server),
+// gitlab:group/project with any number of subgroups, or local: followed by the
+// absolute path of a clone
+const REPO_PATTERN = /^(?:(?:[a-zA-Z0-9-]+(?:\.[a-zA-Z0-9-]+)+(?::\d+)?\/)?[a-zA-Z0-9_.-]+\/[a-zA-Z0-9_.-]+|gitlab:[a-zA-Z0-9_.-]+(?:\/[a-zA-Z0-9_.-]+)+|local:\/.+)$/;
+
+const RELATIVE_HORIZON_PATTERN = /^(\d+)\s*(day|week|month|year)s?$/i;
+const ABSOLUTE_HORIZON_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Resolve a sync horizon to the date syncing should reach back to. Accepts an
+ * absolute date ("2024-01-01") or a period relative to now ("18 months",
+ * "90 days"). Returns null if the value cannot be parsed.
+ */
+export function parseSyncHorizon(horizon: string, now: Date = new Date()): Date | null {
+  const value = horizon.trim();
+
+  const relative = value.match(RELATIVE_HORIZON_PATTERN);
+  if (relative) {
+    const amount = parseInt(relative[1], 10);
+    switch (relative[2].toLowerCase()) {
+      case 'day': return subDays(now, amount);
+      case 'week': return subWeeks(now, amount);
+      case 'month': return subMonths(now, amount);
+      case 'year': return subYears(now, amount);
+    }
+  }
+
+  if (ABSOLUTE_HORIZON_PATTERN.test(value)) {
+    const date = new Date(`${value}T00:00:00Z`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+}
+
+/**
+ * Get the date a repo's sync should reach back to: its own override if set,
+ * otherwise the configured default horizon.
+ */
+export function getSyncHorizon(config: RepoConfig, repo: string): Date {
+  const horizon = config.repoSyncHorizons?.[repo] ?? config.syncHorizon ?? DEFAULT_SYNC_HORIZON;
+  return parseSyncHorizon(horizon) ?? parseSyncHorizon(DEFAULT_SYNC_HORIZON)!;
+}
+
+/**
+ * Get the lower-cased names of the environments whose deployments are synced
+ * for DORA metrics.
+ */
+export function getDeploymentEnvironments(config: RepoConfig): string[] {
+  const environments = config.deploymentEnvironments?.length ? config.deploymentEnvironments : DEFAULT_DEPLOYMENT_ENVIRONMENTS;
+  return environments.map((environment) => environment.toLowerCase());
+}
+
+function validateSyncHorizon(horizon: string): void {
+  if (!parseSyncHorizon(horizon)) {
+    throw new Error('Invalid sync horizon. Expected a date (YYYY-MM-DD) or a period like "18 months"');
+  }
+}
+
 export async function getRepoConfig(): Promise<RepoConfig> {
   try {
     const data = await fs.readFile(CONFIG_PATH, 'utf-8');
@@ -22,8 +88,8 @@ export async function addRepo(repo: string): Promise<RepoConfig> {
   const config = await getRepoConfig();
 
   // Validate format
-  if (!repo.match(/^[a-zA-Z0-9_.-]+\/[a-zA-Z0-9_.-]+$/)) {
-    throw new Error('Invalid repo format. Expected: owner/repo');
+  if (!REPO_PATTERN.test(repo)) {
+    throw new Error('Invalid repo format. Expected: owner/repo, host/owner/repo, gitlab:group/project or local:/path/to/repo');
   }
 
   // Check for duplicates
@@ -46,6 +112,27 @@ export async function removeRepo(repo: string): Promise<RepoConfig> {
   }
 
   config.repos.splice(index, 1);
+  if (config.repoSyncHorizons) {
+    delete config.repoSyncHorizons[repo];
+  }
+  await saveRepoConfig(config);
+
+  return config;
+}
+
+export async function renameRepo(from: string, to: string): Promise<RepoConfig> {
+  const config = await getRepoConfig();
+
+  const index = config.repos.indexOf(from);
+  if (index === -1) {
+    throw new Error('Repository not found in config');
+  }
+
+  config.repos[index] = to;
+  if (config.repoSyncHorizons?.[from]) {
+    config.repoSyncHorizons[to] = config.repoSyncHorizons[from];
+    delete config.repoSyncHorizons[from];
+  }
   await saveRepoConfig(config);
 
   return config;
@@ -56,7 +143,7 @@ export async function addMultipleRepos(repos: string[]): Promise<RepoConfig> {
 
   for (const repo of repos) {
     // Validate format
-    if (!repo.match(/^[a-zA-Z0-9_.-]+\/[a-zA-Z0-9_.-]+$/)) {
+    if (!REPO_PATTERN.test(repo)) {
       console.warn(`Skipping invalid repo format: ${repo}`);
       continue;
     }
@@ -70,3 +157,35 @@ export async function addMultipleRepos(repos: string[]): Promise<RepoConfig> {
   await saveRepoConfig(config);
   return config;
 }
+
+export async function setDefaultSyncHorizon(horizon: string): Promise<RepoConfig> {
+  const config = await getRepoConfig();
+
+  validateSyncHorizon(horizon);
+
+  config.syncHorizon = horizon.trim();
+  await saveRepoConfig(config);
+
+  return config;
+}
+
+export async function setRepoSyncHorizon(repo: string, horizon: string | null): Promise<RepoConfig> {
+  const config = await getRepoConfig();
+
+  if (!config.repos.includes(repo)) {
+    throw new Error('Repository not found in config');
+  }
+
+  // A null horizon removes the override so the repo follows the default again
+  if (horizon === null) {
+    if (config.repoSyncHorizons) {
+      delete config.repoSyncHorizons[repo];
+    }
+  } else {
+    validateSyncHorizon(horizon);
+    config.repoSyncHorizons = { ...config.repoSyncHorizons, [repo]: horizon.trim() };
+  }
+
+  await saveRepoConfig(config);
+  return config;
+}
@@ -1,12 +1,46 @@
 import Database from 'better-sqlite3';
 import path from 'path';
-import { PullRequest, PRSize } from '@/types';
+import {
+  PullRequest,
+  PRReview,
+  PRCheck,
+  PRSize,
+  CommitCoAuthor,
+  LinkedIssue,
+  Release,
+  Deployment,
+  DeploymentStatus,
+  LocalCommit,
+  DateField,
+  ReviewerStats,
+  ReviewerStatsFilter,
+  PullRequestFile,
+  SyncJob,
+  SyncJobStatus,
+  SyncCheckpoint,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  ScheduledSyncRun,
+  ScheduledSyncRunStatus,
+  SchemaMigration,
+  SchemaStatus,
+  SnapshotFilter,
+  SnapshotRecord,
+  SnapshotRow,
+  PRDetailTable,
+  Session,
+  SessionAccount,
+} from '@/types';
+import { runMigrations, getMigrationStatus } from './migrations';
+import { resolveCommitAuthor, summarizeDurations } from './analyzer';
 
 const DB_PATH = path.join(process.cwd(), 'data', 'pr-cache.db');
 
 let db: Database.Database | null = null;
+let migrated = false;
+let migrationError: string | null = null;
 
-function getDatabase(): Database.Database {
+function openDatabase(): Database.Database {
   if (!db) {
     // Ensure data directory exists
     const fs = require('fs');
@@ -16,153 +50,381 @@ function getDatabase(): Database.Database {
     }
 
     db = new Database(DB_PATH);
+  }
 
-    // Create tables if they don't exist
-    db.exec(`
-      CREATE TABLE IF NOT EXISTS pull_requests (
-        id INTEGER PRIMARY KEY,
-        number INTEGER NOT NULL,
-        repo TEXT NOT NULL,
-        title TEXT NOT NULL,
-        author TEXT NOT NULL,
-        author_avatar TEXT,
-        state TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        merged_at TEXT,
-        closed_at TEXT,
-        additions INTEGER NOT NULL,
-        deletions INTEGER NOT NULL,
-        changed_files INTEGER NOT NULL,
-        size TEXT NOT NULL,
-        url TEXT NOT NULL,
-        updated_at TEXT NOT NULL,
-        languages TEXT,
-        UNIQUE(repo, number)
-      );
+  return db;
+}
 
-      CREATE INDEX IF NOT EXISTS idx_pr_repo ON pull_requests(repo);
-      CREATE INDEX IF NOT EXISTS idx_pr_author ON pull_requests(author);
-      CREATE INDEX IF NOT EXISTS idx_pr_created_at ON pull_requests(created_at);
-      CREATE INDEX IF NOT EXISTS idx_pr_repo_created ON pull_requests(repo, created_at);
+/**
+ * Apply pending schema migrations. Runs at server startup and, failing that,
+ * on first database use; a failed migration is retried on the next call.
+ */
+export function migrateDatabase(): SchemaMigration[] {
+  if (migrated) return [];
 
-      CREATE TABLE IF NOT EXISTS sync_status (
-        repo TEXT PRIMARY KEY,
-        last_synced_at TEXT NOT NULL,
-        pr_count INTEGER DEFAULT 0
-      );
-    `);
+  try {
+    const applied = runMigrations(openDatabase());
+    migrated = true;
+    migrationError = null;
+    return applied;
+  } catch (error) {
+    migrationError = error instanceof Error ? error.message : 'Unknown error';
+    throw error;
+  }
+}
+
+function getDatabase(): Database.Database {
+  migrateDatabase();
+  return openDatabase();
+}
+
+/**
+ * Report the schema version and any pending migrations. Doesn't apply
+ * migrations itself, so it still works when one is failing.
+ */
+export function getSchemaStatus(): SchemaStatus {
+  return {
+    ...getMigrationStatus(openDatabase()),
+    error: migrationError,
+  };
+}
 
-    // Add languages column if it doesn't exist (migration for existing databases)
-    try {
-      db.exec('ALTER TABLE pull_requests ADD COLUMN languages TEXT');
-    } catch {
-      // Column already exists
+// Replaces a PR's rows in pr_reviews and pr_files. PRs saved without review or
+// file data keep their existing rows.
+function createDetailWriter(database: Database.Database): (pr: PullRequest) => void {
+  const removeReviews = database.prepare('DELETE FROM pr_reviews WHERE pr_id = ?');
+  const insertReview = database.prepare(`
+    INSERT INTO pr_reviews (pr_id, reviewer, state, submitted_at, body_length, comment_count)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const removeRequests = database.prepare('DELETE FROM pr_review_requests WHERE pr_id = ?');
+  const insertRequest = database.prepare(`
+    INSERT INTO pr_review_requests (pr_id, reviewer, is_team, requested_at, removed_at)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  const removeChecks = database.prepare('DELETE FROM pr_checks WHERE pr_id = ?');
+  const insertCheck = database.prepare(`
+    INSERT INTO pr_checks (pr_id, name, conclusion, started_at, completed_at, duration_seconds)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const removeCommits = database.prepare('DELETE FROM pr_commits WHERE pr_id = ?');
+  const insertCommit = database.prepare(`
+    INSERT OR REPLACE INTO pr_commits
+    (pr_id, oid, author_login, author_name, author_email, committer_login, committer_name, committed_at, message_headline, co_authors, additions, deletions)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const removeIssueLinks = database.prepare('DELETE FROM pr_issues WHERE pr_id = ?');
+  const insertIssueLink = database.prepare(`
+    INSERT OR IGNORE INTO pr_issues (pr_id, issue_repo, issue_number)
+    VALUES (?, ?, ?)
+  `);
+  const upsertIssue = database.prepare(`
+    INSERT OR REPLACE INTO issues (repo, number, title, url, author, created_at, closed_at, labels)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const removeFiles = database.prepare('DELETE FROM pr_files WHERE pr_id = ?');
+  const insertFile = database.prepare(`
+    INSERT OR REPLACE INTO pr_files (pr_id, path, additions, deletions)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  return (pr) => {
+    if (pr.reviews) {
+      removeReviews.run(pr.id);
+      for (const review of pr.reviews) {
+        insertReview.run(
+          pr.id,
+          review.reviewer,
+          review.state,
+          review.submittedAt || null,
+          review.bodyLength || 0,
+          review.commentCount || 0
+        );
+      }
     }
 
-    // Add reviews column if it doesn't exist (migration for existing databases)
-    try {
-      db.exec('ALTER TABLE pull_requests ADD COLUMN review_count INTEGER DEFAULT 0');
-    } catch {
-      // Column already exists
+    if (pr.reviewRequests) {
+      removeRequests.run(pr.id);
+      for (const request of pr.reviewRequests) {
+        insertRequest.run(pr.id, request.reviewer, request.isTeam ? 1 : 0, request.requestedAt, request.removedAt);
+      }
     }
 
-    try {
-      db.exec('ALTER TABLE pull_requests ADD COLUMN reviews TEXT');
-    } catch {
-      // Column already exists
+    if (pr.checks) {
+      removeChecks.run(pr.id);
+      for (const check of pr.checks) {
+        insertCheck.run(pr.id, check.name, check.conclusion, check.startedAt, check.completedAt, check.durationSeconds);
+      }
     }
-  }
 
-  return db;
+    if (pr.commits) {
+      removeCommits.run(pr.id);
+      for (const commit of pr.commits) {
+        insertCommit.run(
+          pr.id,
+          commit.oid,
+          commit.authorLogin,
+          commit.authorName,
+          commit.authorEmail,
+          commit.committerLogin,
+          commit.committerName,
+          commit.committedAt,
+          commit.messageHeadline,
+          JSON.stringify(commit.coAuthors),
+          commit.additions,
+          commit.deletions
+        );
+      }
+    }
+
+    if (pr.linkedIssues) {
+      removeIssueLinks.run(pr.id);
+      for (const issue of pr.linkedIssues) {
+        upsertIssue.run(
+          issue.repo,
+          issue.number,
+          issue.title,
+          issue.url,
+          issue.author,
+          issue.createdAt,
+          issue.closedAt,
+          JSON.stringify(issue.labels)
+        );
+        insertIssueLink.run(pr.id, issue.repo, issue.number);
+      }
+    }
+
+    if (pr.files) {
+      removeFiles.run(pr.id);
+      for (const file of pr.files) {
+        insertFile.run(pr.id, file.path, file.additions, file.deletions);
+      }
+    }
+  };
 }
 
-export function savePullRequest(pr: PullRequest): void {
-  const database = getDatabase();
+// Columns of pull_requests written on save; pullRequestRow must bind each of them
+const PULL_REQUEST_COLUMNS = [
+  'id',
+  'number',
+  'repo',
+  'title',
+  'author',
+  'author_avatar',
+  'state',
+  'created_at',
+  'merged_at',
+  'closed_at',
+  'additions',
+  'deletions',
+  'changed_files',
+  'size',
+  'url',
+  'updated_at',
+  'github_updated_at',
+  'is_draft',
+  'base_ref',
+  'head_ref',
+  'labels',
+  'milestone',
+  'merge_method',
+  'requested_reviewers',
+  'ci_state',
+  'commit_count',
+  'merge_commit_sha',
+  'languages',
+  'review_count',
+  'files_truncated',
+  'reviews_truncated',
+] as const;
+
+type PullRequestRow = Record<(typeof PULL_REQUEST_COLUMNS)[number], string | number | null>;
 
+function pullRequestRow(pr: PullRequest): PullRequestRow {
+  return {
+    id: pr.id,
+    number: pr.number,
+    repo: pr.repo,
+    title: pr.title,
+    author: pr.author,
+    author_avatar: pr.authorAvatar,
+    state: pr.state,
+    created_at: pr.createdAt,
+    merged_at: pr.mergedAt,
+    closed_at: pr.closedAt,
+    additions: pr.additions,
+    deletions: pr.deletions,
+    changed_files: pr.changedFiles,
+    size: pr.size,
+    url: pr.url,
+    updated_at: new Date().toISOString(),
+    github_updated_at: pr.updatedAt || null,
+    is_draft: pr.isDraft ? 1 : 0,
+    base_ref: pr.baseRef || null,
+    head_ref: pr.headRef || null,
+    labels: pr.labels ? JSON.stringify(pr.labels) : null,
+    milestone: pr.milestone || null,
+    merge_method: pr.mergeMethod || null,
+    requested_reviewers: pr.requestedReviewers ? JSON.stringify(pr.requestedReviewers) : null,
+    ci_state: pr.ciState || null,
+    commit_count: pr.commitCount ?? null,
+    merge_commit_sha: pr.mergeCommitSha || null,
+    languages: pr.languages ? JSON.stringify(pr.languages) : null,
+    review_count: pr.reviewCount || 0,
+    files_truncated: pr.filesTruncated ? 1 : 0,
+    reviews_truncated: pr.reviewsTruncated ? 1 : 0,
+  };
+}
+
+// Upserts a PR and replaces its detail rows; call inside a transaction
+function createPullRequestWriter(database: Database.Database): (pr: PullRequest) => void {
   const stmt = database.prepare(`
     INSERT OR REPLACE INTO pull_requests
-    (id, number, repo, title, author, author_avatar, state, created_at, merged_at, closed_at, additions, deletions, changed_files, size, url, updated_at, languages, review_count, reviews)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    (${PULL_REQUEST_COLUMNS.join(', ')})
+    VALUES (${PULL_REQUEST_COLUMNS.map((column) => `@${column}`).join(', ')})
   `);
+  const writeDetails = createDetailWriter(database);
 
-  stmt.run(
-    pr.id,
-    pr.number,
-    pr.repo,
-    pr.title,
-    pr.author,
-    pr.authorAvatar,
-    pr.state,
-    pr.createdAt,
-    pr.mergedAt,
-    pr.closedAt,
-    pr.additions,
-    pr.deletions,
-    pr.changedFiles,
-    pr.size,
-    pr.url,
-    new Date().toISOString(),
-    pr.languages ? JSON.stringify(pr.languages) : null,
-    pr.reviewCount || 0,
-    pr.reviews ? JSON.stringify(pr.reviews) : null
-  );
+  return (pr) => {
+    stmt.run(pullRequestRow(pr));
+    writeDetails(pr);
+  };
 }
 
-export function savePullRequests(prs: PullRequest[]): void {
+export function savePullRequest(pr: PullRequest): void {
   const database = getDatabase();
+  const writePullRequest = createPullRequestWriter(database);
 
-  const stmt = database.prepare(`
-    INSERT OR REPLACE INTO pull_requests
-    (id, number, repo, title, author, author_avatar, state, created_at, merged_at, closed_at, additions, deletions, changed_files, size, url, updated_at, languages, review_count, reviews)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-  `);
+  database.transaction(() => writePullRequest(pr))();
+}
+
+export function savePullRequests(prs: PullRequest[]): void {
+  const database = getDatabase();
+  const writePullRequest = createPullRequestWriter(database);
 
   const insertMany = database.transaction((prs: PullRequest[]) => {
     for (const pr of prs) {
-      stmt.run(
-        pr.id,
-        pr.number,
-        pr.repo,
-        pr.title,
-        pr.author,
-        pr.authorAvatar,
-        pr.state,
-        pr.createdAt,
-        pr.mergedAt,
-        pr.closedAt,
-        pr.additions,
-        pr.deletions,
-        pr.changedFiles,
-        pr.size,
-        pr.url,
-        new Date().toISOString(),
-        pr.languages ? JSON.stringify(pr.languages) : null,
-        pr.reviewCount || 0,
-        pr.reviews ? JSON.stringify(pr.reviews) : null
-      );
+      writePullRequest(pr);
     }
   });
 
   insertMany(prs);
 }
 
+// Column holding each analysis date. Rows cached before GitHub's updatedAt was
+// stored fall back to their write time until they are synced again.
+const DATE_FIELD_COLUMNS: Record<DateField, string> = {
+  created: 'p.created_at',
+  merged: 'p.merged_at',
+  closed: 'p.closed_at',
+  updated: 'COALESCE(p.github_updated_at, p.updated_at)',
+};
+
 export function getPullRequests(
   repos: string[],
   since: Date,
-  until: Date
+  until: Date,
+  dateField: DateField = 'created'
 ): PullRequest[] {
   const database = getDatabase();
 
   const placeholders = repos.map(() => '?').join(',');
+  const column = DATE_FIELD_COLUMNS[dateField];
+  const where = `
+    WHERE p.repo IN (${placeholders})
+    AND ${column} >= ?
+    AND ${column} <= ?
+  `;
+  const params = [...repos, since.toISOString(), until.toISOString()];
+
+  // The first release and successful deployment that shipped the PR's merge commit
   const stmt = database.prepare(`
-    SELECT * FROM pull_requests
-    WHERE repo IN (${placeholders})
-    AND updated_at >= ?
-    AND updated_at <= ?
-    ORDER BY updated_at DESC
+    SELECT p.*, fr.tag_name AS release_tag, fr.published_at AS released_at, fd.finished_at AS deployed_at,
+      (SELECT MIN(c.committed_at) FROM pr_commits c WHERE c.pr_id = p.id) AS first_commit_at
+    FROM pull_requests p
+    LEFT JOIN releases fr ON fr.rowid = (
+      SELECT r.rowid FROM release_commits rc
+      JOIN releases r ON r.repo = rc.repo AND r.tag_name = rc.tag_name
+      WHERE rc.repo = p.repo AND rc.sha = p.merge_commit_sha
+      ORDER BY r.published_at
+      LIMIT 1
+    )
+    LEFT JOIN deployments fd ON fd.rowid = (
+      SELECT d.rowid FROM deployment_commits dc
+      JOIN deployments d ON d.repo = dc.repo AND d.id = dc.deployment_id
+      WHERE dc.repo = p.repo AND dc.sha = p.merge_commit_sha AND d.state = 'success'
+      ORDER BY d.finished_at
+      LIMIT 1
+    )
+    ${where}
+    ORDER BY ${column} DESC
+  `);
+  const rows = stmt.all(...params) as any[];
+
+  // Attach each PR's reviews from pr_reviews, in submission order
+  const reviewStmt = database.prepare(`
+    SELECT r.* FROM pr_reviews r
+    JOIN pull_requests p ON p.id = r.pr_id
+    ${where}
+    ORDER BY r.submitted_at
+  `);
+  const reviewsByPR = new Map<number, PRReview[]>();
+  for (const review of reviewStmt.all(...params) as any[]) {
+    const reviews = reviewsByPR.get(review.pr_id) || [];
+    reviews.push({
+      reviewer: review.reviewer,
+      state: review.state,
+      submittedAt: review.submitted_at || '',
+      bodyLength: review.body_length,
+      commentCount: review.comment_count,
+    });
+    reviewsByPR.set(review.pr_id, reviews);
+  }
+
+  // Attach each PR's check runs and commit statuses
+  const checkStmt = database.prepare(`
+    SELECT c.* FROM pr_checks c
+    JOIN pull_requests p ON p.id = c.pr_id
+    ${where}
+    ORDER BY c.id
   `);
+  const checksByPR = new Map<number, PRCheck[]>();
+  for (const check of checkStmt.all(...params) as any[]) {
+    const checks = checksByPR.get(check.pr_id) || [];
+    checks.push({
+      name: check.name,
+      conclusion: check.conclusion,
+      startedAt: check.started_at,
+      completedAt: check.completed_at,
+      durationSeconds: check.duration_seconds,
+    });
+    checksByPR.set(check.pr_id, checks);
+  }
+
+  const coAuthorsByPR = getCoAuthors(database, where, params);
 
-  const rows = stmt.all(...repos, since.toISOString(), until.toISOString()) as any[];
+  // Attach the issues each PR closes
+  const issueStmt = database.prepare(`
+    SELECT pi.pr_id, i.* FROM pr_issues pi
+    JOIN issues i ON i.repo = pi.issue_repo AND i.number = pi.issue_number
+    JOIN pull_requests p ON p.id = pi.pr_id
+    ${where}
+  `);
+  const issuesByPR = new Map<number, LinkedIssue[]>();
+  for (const issue of issueStmt.all(...params) as any[]) {
+    const issues = issuesByPR.get(issue.pr_id) || [];
+    issues.push({
+      repo: issue.repo,
+      number: issue.number,
+      title: issue.title,
+      url: issue.url,
+      author: issue.author,
+      createdAt: issue.created_at,
+      closedAt: issue.closed_at,
+      labels: JSON.parse(issue.labels),
+    });
+    issuesByPR.set(issue.pr_id, issues);
+  }
 
   return rows.map((row) => ({
     id: row.id,
@@ -174,6 +436,24 @@ export function getPullRequests(
     createdAt: row.created_at,
     mergedAt: row.merged_at,
     closedAt: row.closed_at,
+    updatedAt: row.github_updated_at || undefined,
+    isDraft: row.is_draft === 1,
+    baseRef: row.base_ref || undefined,
+    headRef: row.head_ref || undefined,
+    labels: row.labels ? JSON.parse(row.labels) : undefined,
+    milestone: row.milestone,
+    mergeMethod: row.merge_method,
+    mergeCommitSha: row.merge_commit_sha,
+    releaseTag: row.release_tag,
+    releasedAt: row.released_at,
+    deployedAt: row.deployed_at,
+    firstCommitAt: row.first_commit_at,
+    requestedReviewers: row.requested_reviewers ? JSON.parse(row.requested_reviewers) : undefined,
+    ciState: row.ci_state,
+    checks: checksByPR.get(row.id) || [],
+    commitCount: row.commit_count ?? undefined,
+    coAuthors: (coAuthorsByPR.get(row.id) || []).filter((login) => login !== row.author),
+    linkedIssues: issuesByPR.get(row.id) || [],
     additions: row.additions,
     deletions: row.deletions,
     changedFiles: row.changed_files,
@@ -182,7 +462,587 @@ export function getPullRequests(
     repo: row.repo,
     languages: row.languages ? JSON.parse(row.languages) : undefined,
     reviewCount: row.review_count || 0,
-    reviews: row.reviews ? JSON.parse(row.reviews) : undefined,
+    reviews: reviewsByPR.get(row.id) || [],
+    filesTruncated: row.files_truncated === 1,
+    reviewsTruncated: row.reviews_truncated === 1,
+  }));
+}
+
+/**
+ * Get who wrote or co-authored commits on each PR selected by `where`, as
+ * GitHub logins where they can be resolved. Emails are matched to logins
+ * using every cached commit GitHub attributed to a user.
+ */
+function getCoAuthors(database: Database.Database, where: string, params: unknown[]): Map<number, string[]> {
+  const loginsByEmail = new Map<string, string>();
+  const loginRows = database.prepare(`
+    SELECT LOWER(author_email) AS email, author_login FROM pr_commits
+    WHERE author_login IS NOT NULL
+    GROUP BY LOWER(author_email)
+  `).all() as any[];
+  for (const row of loginRows) {
+    loginsByEmail.set(row.email, row.author_login);
+  }
+
+  const rows = database.prepare(`
+    SELECT c.pr_id, c.author_login, c.author_name, c.author_email, c.co_authors FROM pr_commits c
+    JOIN pull_requests p ON p.id = c.pr_id
+    ${where}
+  `).all(...params) as any[];
+
+  const coAuthors = new Map<number, Set<string>>();
+  for (const row of rows) {
+    const people = coAuthors.get(row.pr_id) || new Set<string>();
+    people.add(row.author_login || resolveCommitAuthor(row.author_name, row.author_email, loginsByEmail));
+    for (const coAuthor of JSON.parse(row.co_authors) as CommitCoAuthor[]) {
+      people.add(resolveCommitAuthor(coAuthor.name, coAuthor.email, loginsByEmail));
+    }
+    coAuthors.set(row.pr_id, people);
+  }
+
+  // Commits by bots (e.g. branch updates) don't earn credit
+  return new Map(Array.from(coAuthors.entries()).map(([prId, people]) => [
+    prId,
+    Array.from(people).filter((person) => !person.endsWith('[bot]')),
+  ]));
+}
+
+/**
+ * Build the WHERE conditions selecting PRs (aliased p) for reviewer stats,
+ * with dateColumn as the date the range applies to.
+ */
+function getReviewerConditions(filter: ReviewerStatsFilter, dateColumn: string): { conditions: string[]; params: unknown[] } {
+  const { repos, since, until, authors, sizes, labels, baseRefs, excludeDrafts } = filter;
+
+  const conditions = [
+    `p.repo IN (${repos.map(() => '?').join(',')})`,
+    `${dateColumn} >= ?`,
+    `${dateColumn} <= ?`,
+  ];
+  const params: unknown[] = [...repos, since.toISOString(), until.toISOString()];
+
+  if (authors && authors.length > 0) {
+    conditions.push(`LOWER(p.author) IN (${authors.map(() => '?').join(',')})`);
+    params.push(...authors.map((author) => author.toLowerCase()));
+  }
+
+  if (sizes) {
+    conditions.push(`p.size IN (${sizes.map(() => '?').join(',')})`);
+    params.push(...sizes);
+  }
+
+  if (labels && labels.length > 0) {
+    conditions.push(`EXISTS (SELECT 1 FROM json_each(p.labels) l WHERE l.value IN (${labels.map(() => '?').join(',')}))`);
+    params.push(...labels);
+  }
+
+  if (baseRefs && baseRefs.length > 0) {
+    conditions.push(`p.base_ref IN (${baseRefs.map(() => '?').join(',')})`);
+    params.push(...baseRefs);
+  }
+
+  if (excludeDrafts) {
+    conditions.push('p.is_draft = 0');
+  }
+
+  return { conditions, params };
+}
+
+/**
+ * Aggregate reviewer stats in SQL. Reviews are selected either by their own
+ * submission date or by the analysis date of the PR they were left on.
+ */
+export function getReviewerStats(filter: ReviewerStatsFilter): ReviewerStats[] {
+  const database = getDatabase();
+  const byReviewDate = filter.reviewsBy === 'review';
+
+  const { conditions, params } = getReviewerConditions(
+    filter,
+    byReviewDate ? 'r.submitted_at' : DATE_FIELD_COLUMNS[filter.dateField]
+  );
+
+  const stmt = database.prepare(`
+    SELECT
+      r.reviewer,
+      COUNT(*) AS total_reviews,
+      SUM(CASE WHEN r.state = 'APPROVED' THEN 1 ELSE 0 END) AS approvals,
+      SUM(CASE WHEN r.state = 'CHANGES_REQUESTED' THEN 1 ELSE 0 END) AS changes_requested,
+      SUM(CASE WHEN r.state = 'COMMENTED' THEN 1 ELSE 0 END) AS comments,
+      SUM(r.comment_count) AS inline_comments,
+      AVG(r.body_length) AS avg_body_length,
+      GROUP_CONCAT(DISTINCT p.number) AS reviewed_prs
+    FROM pr_reviews r
+    JOIN pull_requests p ON p.id = r.pr_id
+    WHERE ${conditions.join(' AND ')}
+    GROUP BY r.reviewer
+    ORDER BY total_reviews DESC
+  `);
+
+  const rows = stmt.all(...params) as any[];
+
+  const reviewers: ReviewerStats[] = rows.map((row) => ({
+    username: row.reviewer,
+    totalReviews: row.total_reviews,
+    approvals: row.approvals,
+    changesRequested: row.changes_requested,
+    comments: row.comments,
+    reviewedPRs: row.reviewed_prs ? String(row.reviewed_prs).split(',').map(Number) : [],
+    inlineComments: row.inline_comments,
+    avgBodyLength: Math.round(row.avg_body_length || 0),
+  }));
+
+  // Requested reviewers who never reviewed still show up with their requests
+  const requestStats = getReviewRequestStats(filter);
+  for (const reviewer of reviewers) {
+    Object.assign(reviewer, requestStats.get(reviewer.username));
+    requestStats.delete(reviewer.username);
+  }
+  for (const [username, stats] of Array.from(requestStats.entries())) {
+    reviewers.push({
+      username,
+      totalReviews: 0,
+      approvals: 0,
+      changesRequested: 0,
+      comments: 0,
+      reviewedPRs: [],
+      inlineComments: 0,
+      avgBodyLength: 0,
+      ...stats,
+    });
+  }
+
+  return reviewers;
+}
+
+type ReviewRequestStats = Pick<
+  ReviewerStats,
+  'reviewRequests' | 'respondedRequests' | 'medianResponseHours' | 'ignoredRequests' | 'outstandingRequests'
+>;
+
+/**
+ * Per reviewer, how often they were asked to review, how long they took to
+ * respond and how many requests went unanswered. A request is answered by the
+ * reviewer's first review after it, unless the request was withdrawn first.
+ * Team requests are skipped since reviews are submitted by users.
+ */
+function getReviewRequestStats(filter: ReviewerStatsFilter): Map<string, ReviewRequestStats> {
+  const database = getDatabase();
+
+  const { conditions, params } = getReviewerConditions(
+    filter,
+    filter.reviewsBy === 'review' ? 'q.requested_at' : DATE_FIELD_COLUMNS[filter.dateField]
+  );
+
+  const stmt = database.prepare(`
+    SELECT
+      q.reviewer,
+      q.requested_at,
+      q.removed_at,
+      p.state,
+      EXISTS (SELECT 1 FROM json_each(p.requested_reviewers) rr WHERE rr.value = q.reviewer) AS still_requested,
+      (
+        SELECT MIN(r.submitted_at) FROM pr_reviews r
+        WHERE r.pr_id = q.pr_id
+        AND r.reviewer = q.reviewer
+        AND r.state != 'PENDING'
+        AND r.submitted_at >= q.requested_at
+        AND (q.removed_at IS NULL OR r.submitted_at <= q.removed_at)
+      ) AS responded_at
+    FROM pr_review_requests q
+    JOIN pull_requests p ON p.id = q.pr_id
+    WHERE q.is_team = 0 AND ${conditions.join(' AND ')}
+  `);
+
+  const rows = stmt.all(...params) as any[];
+  const byReviewer = new Map<string, { requests: number; responseHours: number[]; ignored: number; outstanding: number }>();
+
+  for (const row of rows) {
+    const stats = byReviewer.get(row.reviewer) || { requests: 0, responseHours: [], ignored: 0, outstanding: 0 };
+    stats.requests++;
+
+    if (row.responded_at) {
+      stats.responseHours.push(
+        (new Date(row.responded_at).getTime() - new Date(row.requested_at).getTime()) / (60 * 60 * 1000)
+      );
+    } else if (row.removed_at || row.state !== 'open') {
+      stats.ignored++;
+    } else if (row.still_requested) {
+      stats.outstanding++;
+    }
+
+    byReviewer.set(row.reviewer, stats);
+  }
+
+  const result = new Map<string, ReviewRequestStats>();
+  for (const [reviewer, stats] of Array.from(byReviewer.entries())) {
+    result.set(reviewer, {
+      reviewRequests: stats.requests,
+      respondedRequests: stats.responseHours.length,
+      medianResponseHours: summarizeDurations(stats.responseHours).p50,
+      ignoredRequests: stats.ignored,
+      outstandingRequests: stats.outstanding,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Get the files changed by PRs in the analysis period, optionally limited to
+ * paths under a directory prefix.
+ */
+export function getPullRequestFiles(
+  repos: string[],
+  since: Date,
+  until: Date,
+  dateField: DateField = 'created',
+  pathPrefix?: string
+): PullRequestFile[] {
+  const database = getDatabase();
+
+  const placeholders = repos.map(() => '?').join(',');
+  const column = DATE_FIELD_COLUMNS[dateField];
+  const params: unknown[] = [...repos, since.toISOString(), until.toISOString()];
+
+  let pathCondition = '';
+  if (pathPrefix) {
+    // Match the directory itself, not siblings sharing its name as a prefix
+    pathCondition = "AND (f.path = ? OR f.path LIKE ? ESCAPE '\\')";
+    params.push(pathPrefix, pathPrefix.replace(/[\\%_]/g, '\\$&') + '/%');
+  }
+
+  const stmt = database.prepare(`
+    SELECT p.repo, p.number, p.author, p.additions + p.deletions AS pr_lines, f.path, f.additions, f.deletions
+    FROM pr_files f
+    JOIN pull_requests p ON p.id = f.pr_id
+    WHERE p.repo IN (${placeholders})
+    AND ${column} >= ?
+    AND ${column} <= ?
+    ${pathCondition}
+  `);
+
+  const rows = stmt.all(...params) as any[];
+
+  return rows.map((row) => ({
+    repo: row.repo,
+    number: row.number,
+    author: row.author,
+    prLines: row.pr_lines,
+    path: row.path,
+    additions: row.additions,
+    deletions: row.deletions,
+  }));
+}
+
+/**
+ * Get the line counts of a PR's stored commits, keyed by SHA.
+ */
+export function getPRCommitLineCounts(prId: number): Map<string, { additions: number; deletions: number }> {
+  const database = getDatabase();
+
+  const rows = database.prepare('SELECT oid, additions, deletions FROM pr_commits WHERE pr_id = ?').all(prId) as any[];
+
+  return new Map(rows.map((row) => [row.oid, { additions: row.additions, deletions: row.deletions }]));
+}
+
+function rowToRelease(row: any): Release {
+  return {
+    repo: row.repo,
+    tagName: row.tag_name,
+    name: row.name,
+    commitSha: row.commit_sha,
+    publishedAt: row.published_at,
+    isPrerelease: row.is_prerelease === 1,
+    hasRelease: row.has_release === 1,
+  };
+}
+
+export function saveReleases(releases: Release[]): void {
+  const database = getDatabase();
+
+  // A tag moved to another commit has to be compared again
+  const stmt = database.prepare(`
+    INSERT INTO releases (repo, tag_name, name, commit_sha, published_at, is_prerelease, has_release)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(repo, tag_name) DO UPDATE SET
+      name = excluded.name,
+      published_at = excluded.published_at,
+      is_prerelease = excluded.is_prerelease,
+      has_release = excluded.has_release,
+      commits_mapped = CASE WHEN commit_sha = excluded.commit_sha THEN commits_mapped ELSE 0 END,
+      commit_sha = excluded.commit_sha
+  `);
+
+  const saveAll = database.transaction(() => {
+    for (const release of releases) {
+      stmt.run(
+        release.repo,
+        release.tagName,
+        release.name,
+        release.commitSha,
+        release.publishedAt,
+        release.isPrerelease ? 1 : 0,
+        release.hasRelease ? 1 : 0
+      );
+    }
+  });
+
+  saveAll();
+}
+
+/**
+ * Get the repo's releases whose shipped commits haven't been recorded yet,
+ * each with the release before it.
+ */
+export function getReleasesToMap(repo: string): Array<{ release: Release; previous: Release | null }> {
+  const database = getDatabase();
+  const rows = database.prepare('SELECT * FROM releases WHERE repo = ? ORDER BY published_at').all(repo) as any[];
+
+  return rows
+    .map((row, i) => ({ row, previous: i > 0 ? rowToRelease(rows[i - 1]) : null }))
+    .filter(({ row }) => row.commits_mapped === 0)
+    .map(({ row, previous }) => ({ release: rowToRelease(row), previous }));
+}
+
+export function saveReleaseCommits(repo: string, tagName: string, shas: string[]): void {
+  const database = getDatabase();
+  const insert = database.prepare('INSERT OR IGNORE INTO release_commits (repo, tag_name, sha) VALUES (?, ?, ?)');
+
+  const save = database.transaction(() => {
+    database.prepare('DELETE FROM release_commits WHERE repo = ? AND tag_name = ?').run(repo, tagName);
+    for (const sha of shas) {
+      insert.run(repo, tagName, sha);
+    }
+    database.prepare('UPDATE releases SET commits_mapped = 1 WHERE repo = ? AND tag_name = ?').run(repo, tagName);
+  });
+
+  save();
+}
+
+export function getReleases(repos: string[], since: Date, until: Date): Release[] {
+  const database = getDatabase();
+  const placeholders = repos.map(() => '?').join(',');
+
+  const rows = database.prepare(`
+    SELECT * FROM releases
+    WHERE repo IN (${placeholders}) AND published_at >= ? AND published_at <= ?
+    ORDER BY published_at
+  `).all(...repos, since.toISOString(), until.toISOString()) as any[];
+
+  return rows.map(rowToRelease);
+}
+
+function rowToDeployment(row: any): Deployment {
+  return {
+    repo: row.repo,
+    id: row.id,
+    environment: row.environment,
+    sha: row.sha,
+    ref: row.ref,
+    createdAt: row.created_at,
+    state: row.state,
+    finishedAt: row.finished_at,
+  };
+}
+
+/**
+ * Save a deployment with its status history, replacing the statuses stored
+ * for it before.
+ */
+export function saveDeployment(deployment: Deployment, statuses: DeploymentStatus[]): void {
+  const database = getDatabase();
+
+  const upsert = database.prepare(`
+    INSERT INTO deployments (repo, id, environment, sha, ref, created_at, state, finished_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(repo, id) DO UPDATE SET
+      state = excluded.state,
+      finished_at = excluded.finished_at
+  `);
+  const insertStatus = database.prepare(`
+    INSERT OR REPLACE INTO deployment_statuses (repo, deployment_id, id, state, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const save = database.transaction(() => {
+    upsert.run(
+      deployment.repo,
+      deployment.id,
+      deployment.environment,
+      deployment.sha,
+      deployment.ref,
+      deployment.createdAt,
+      deployment.state,
+      deployment.finishedAt
+    );
+    database.prepare('DELETE FROM deployment_statuses WHERE repo = ? AND deployment_id = ?').run(deployment.repo, deployment.id);
+    for (const status of statuses) {
+      insertStatus.run(deployment.repo, deployment.id, status.id, status.state, status.createdAt);
+    }
+  });
+
+  save();
+}
+
+// IDs of the repo's deployments that already succeeded or failed
+export function getFinishedDeploymentIds(repo: string): Set<number> {
+  const database = getDatabase();
+  const rows = database.prepare("SELECT id FROM deployments WHERE repo = ? AND state != 'pending'").all(repo) as Array<{ id: number }>;
+  return new Set(rows.map((row) => row.id));
+}
+
+/**
+ * Get the repo's successful deployments whose shipped commits haven't been
+ * recorded yet, each with the successful deployment before it to the same
+ * environment.
+ */
+export function getDeploymentsToMap(repo: string): Array<{ deployment: Deployment; previous: Deployment | null }> {
+  const database = getDatabase();
+  const rows = database.prepare(`
+    SELECT * FROM deployments
+    WHERE repo = ? AND state = 'success'
+    ORDER BY environment, created_at
+  `).all(repo) as any[];
+
+  return rows
+    .map((row, i) => ({
+      row,
+      previous: i > 0 && rows[i - 1].environment === row.environment ? rowToDeployment(rows[i - 1]) : null,
+    }))
+    .filter(({ row }) => row.commits_mapped === 0)
+    .map(({ row, previous }) => ({ deployment: rowToDeployment(row), previous }));
+}
+
+export function saveDeploymentCommits(repo: string, deploymentId: number, shas: string[]): void {
+  const database = getDatabase();
+  const insert = database.prepare('INSERT OR IGNORE INTO deployment_commits (repo, deployment_id, sha) VALUES (?, ?, ?)');
+
+  const save = database.transaction(() => {
+    database.prepare('DELETE FROM deployment_commits WHERE repo = ? AND deployment_id = ?').run(repo, deploymentId);
+    for (const sha of shas) {
+      insert.run(repo, deploymentId, sha);
+    }
+    database.prepare('UPDATE deployments SET commits_mapped = 1 WHERE repo = ? AND id = ?').run(repo, deploymentId);
+  });
+
+  save();
+}
+
+export function getDeployments(repos: string[], since: Date, until: Date): Deployment[] {
+  const database = getDatabase();
+  const placeholders = repos.map(() => '?').join(',');
+
+  const rows = database.prepare(`
+    SELECT * FROM deployments
+    WHERE repo IN (${placeholders}) AND created_at >= ? AND created_at <= ?
+    ORDER BY created_at
+  `).all(...repos, since.toISOString(), until.toISOString()) as any[];
+
+  return rows.map(rowToDeployment);
+}
+
+/**
+ * Save commits read from a local clone, stamped with when their sync started.
+ * A full sync can then drop the repo's commits it didn't see again (see
+ * deleteLocalCommitsBefore).
+ */
+export function saveLocalCommits(commits: LocalCommit[], ingestedAt: Date): void {
+  const database = getDatabase();
+
+  const upsert = database.prepare(`
+    INSERT OR REPLACE INTO local_commits (
+      repo, sha, author_name, author_email, authored_at, committed_at,
+      message_headline, additions, deletions, ingested_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertFile = database.prepare(`
+    INSERT OR REPLACE INTO local_commit_files (repo, sha, path, additions, deletions)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const save = database.transaction(() => {
+    for (const commit of commits) {
+      upsert.run(
+        commit.repo,
+        commit.sha,
+        commit.authorName,
+        commit.authorEmail,
+        commit.authoredAt,
+        commit.committedAt,
+        commit.messageHeadline,
+        commit.additions,
+        commit.deletions,
+        ingestedAt.toISOString()
+      );
+      database.prepare('DELETE FROM local_commit_files WHERE repo = ? AND sha = ?').run(commit.repo, commit.sha);
+      for (const file of commit.files) {
+        insertFile.run(commit.repo, commit.sha, file.path, file.additions, file.deletions);
+      }
+    }
+  });
+
+  save();
+}
+
+// Remove a repo's commits that weren't saved since the given time, e.g. after a history rewrite
+export function deleteLocalCommitsBefore(repo: string, ingestedAt: Date): void {
+  const database = getDatabase();
+
+  const remove = database.transaction(() => {
+    database.prepare(`
+      DELETE FROM local_commit_files WHERE repo = ? AND sha IN (
+        SELECT sha FROM local_commits WHERE repo = ? AND ingested_at < ?
+      )
+    `).run(repo, repo, ingestedAt.toISOString());
+    database.prepare('DELETE FROM local_commits WHERE repo = ? AND ingested_at < ?').run(repo, ingestedAt.toISOString());
+  });
+
+  remove();
+}
+
+export function getLocalCommitCount(repo: string): number {
+  const database = getDatabase();
+  const row = database.prepare('SELECT COUNT(*) AS count FROM local_commits WHERE repo = ?').get(repo) as { count: number };
+  return row.count;
+}
+
+// Commits of local clones authored in the date range, with their files
+export function getLocalCommits(repos: string[], since: Date, until: Date): LocalCommit[] {
+  const database = getDatabase();
+  const placeholders = repos.map(() => '?').join(',');
+  const params = [...repos, since.toISOString(), until.toISOString()];
+
+  const rows = database.prepare(`
+    SELECT * FROM local_commits
+    WHERE repo IN (${placeholders}) AND authored_at >= ? AND authored_at <= ?
+    ORDER BY authored_at
+  `).all(...params) as any[];
+
+  const fileRows = database.prepare(`
+    SELECT f.* FROM local_commit_files f
+    JOIN local_commits c ON c.repo = f.repo AND c.sha = f.sha
+    WHERE c.repo IN (${placeholders}) AND c.authored_at >= ? AND c.authored_at <= ?
+  `).all(...params) as any[];
+
+  const filesByCommit = new Map<string, LocalCommit['files']>();
+  for (const row of fileRows) {
+    const key = `${row.repo}@${row.sha}`;
+    const files = filesByCommit.get(key) || [];
+    files.push({ path: row.path, additions: row.additions, deletions: row.deletions });
+    filesByCommit.set(key, files);
+  }
+
+  return rows.map((row) => ({
+    repo: row.repo,
+    sha: row.sha,
+    authorName: row.author_name,
+    authorEmail: row.author_email,
+    authoredAt: row.authored_at,
+    committedAt: row.committed_at,
+    messageHeadline: row.message_headline,
+    additions: row.additions,
+    deletions: row.deletions,
+    files: filesByCommit.get(`${row.repo}@${row.sha}`) || [],
   }));
 }
 
@@ -195,27 +1055,38 @@ export function getLastSyncedAt(repo: string): Date | null {
   return row ? new Date(row.last_synced_at) : null;
 }
 
-export function updateSyncStatus(repo: string, prCount: number): void {
+/**
+ * Record a completed sync. Pass coveredSince when the sync fetched everything
+ * from that date onwards (full syncs and first syncs); incremental syncs omit
+ * it and keep the previously recorded coverage. syncedAt is when the sync
+ * started fetching, which for a resumed sync is earlier than now.
+ */
+export function updateSyncStatus(repo: string, prCount: number, coveredSince?: Date, syncedAt: Date = new Date()): void {
   const database = getDatabase();
 
   const stmt = database.prepare(`
-    INSERT OR REPLACE INTO sync_status (repo, last_synced_at, pr_count)
-    VALUES (?, ?, ?)
+    INSERT INTO sync_status (repo, last_synced_at, pr_count, covered_since)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(repo) DO UPDATE SET
+      last_synced_at = excluded.last_synced_at,
+      pr_count = excluded.pr_count,
+      covered_since = COALESCE(excluded.covered_since, sync_status.covered_since)
   `);
 
-  stmt.run(repo, new Date().toISOString(), prCount);
+  stmt.run(repo, syncedAt.toISOString(), prCount, coveredSince ? coveredSince.toISOString() : null);
 }
 
-export function getSyncStatus(): Array<{ repo: string; lastSyncedAt: string; prCount: number }> {
+export function getSyncStatus(): Array<{ repo: string; lastSyncedAt: string; prCount: number; coveredSince: string | null }> {
   const database = getDatabase();
 
-  const stmt = database.prepare('SELECT repo, last_synced_at, pr_count FROM sync_status ORDER BY repo');
+  const stmt = database.prepare('SELECT repo, last_synced_at, pr_count, covered_since FROM sync_status ORDER BY repo');
   const rows = stmt.all() as any[];
 
   return rows.map((row) => ({
     repo: row.repo,
     lastSyncedAt: row.last_synced_at,
     prCount: row.pr_count,
+    coveredSince: row.covered_since,
   }));
 }
 
@@ -237,8 +1108,282 @@ export function getRepoStats(repo: string): { prCount: number; lastPrDate: strin
 export function clearRepoData(repo: string): void {
   const database = getDatabase();
 
-  database.prepare('DELETE FROM pull_requests WHERE repo = ?').run(repo);
-  database.prepare('DELETE FROM sync_status WHERE repo = ?').run(repo);
+  // One transaction, so a failure can't leave detail rows without their PR
+  const clear = database.transaction(() => {
+    database.prepare('DELETE FROM pr_reviews WHERE pr_id IN (SELECT id FROM pull_requests WHERE repo = ?)').run(repo);
+    database.prepare('DELETE FROM pr_files WHERE pr_id IN (SELECT id FROM pull_requests WHERE repo = ?)').run(repo);
+    database.prepare('DELETE FROM pr_review_requests WHERE pr_id IN (SELECT id FROM pull_requests WHERE repo = ?)').run(repo);
+    database.prepare('DELETE FROM pr_checks WHERE pr_id IN (SELECT id FROM pull_requests WHERE repo = ?)').run(repo);
+    database.prepare('DELETE FROM pr_commits WHERE pr_id IN (SELECT id FROM pull_requests WHERE repo = ?)').run(repo);
+    database.prepare('DELETE FROM pr_issues WHERE pr_id IN (SELECT id FROM pull_requests WHERE repo = ?)').run(repo);
+    database.prepare('DELETE FROM releases WHERE repo = ?').run(repo);
+    database.prepare('DELETE FROM release_commits WHERE repo = ?').run(repo);
+    database.prepare('DELETE FROM deployments WHERE repo = ?').run(repo);
+    database.prepare('DELETE FROM deployment_statuses WHERE repo = ?').run(repo);
+    database.prepare('DELETE FROM deployment_commits WHERE repo = ?').run(repo);
+    database.prepare('DELETE FROM local_commits WHERE repo = ?').run(repo);
+    database.prepare('DELETE FROM local_commit_files WHERE repo = ?').run(repo);
+    database.prepare('DELETE FROM pull_requests WHERE repo = ?').run(repo);
+    database.prepare('DELETE FROM sync_status WHERE repo = ?').run(repo);
+    database.prepare('DELETE FROM sync_checkpoints WHERE repo = ?').run(repo);
+  });
+
+  clear();
+}
+
+export function renameRepoData(from: string, to: string): void {
+  const database = getDatabase();
+
+  const rename = database.transaction(() => {
+    database.prepare('UPDATE pull_requests SET repo = ? WHERE repo = ?').run(to, from);
+    database.prepare('UPDATE sync_status SET repo = ? WHERE repo = ?').run(to, from);
+    database.prepare('UPDATE OR REPLACE issues SET repo = ? WHERE repo = ?').run(to, from);
+    database.prepare('UPDATE OR REPLACE pr_issues SET issue_repo = ? WHERE issue_repo = ?').run(to, from);
+    database.prepare('UPDATE OR REPLACE releases SET repo = ? WHERE repo = ?').run(to, from);
+    database.prepare('UPDATE OR REPLACE release_commits SET repo = ? WHERE repo = ?').run(to, from);
+    database.prepare('UPDATE OR REPLACE deployments SET repo = ? WHERE repo = ?').run(to, from);
+    database.prepare('UPDATE OR REPLACE deployment_statuses SET repo = ? WHERE repo = ?').run(to, from);
+    database.prepare('UPDATE OR REPLACE deployment_commits SET repo = ? WHERE repo = ?').run(to, from);
+    database.prepare('DELETE FROM sync_checkpoints WHERE repo = ?').run(from);
+  });
+
+  rename();
+}
+
+// Rows of these tables are exported with their PR. pr_reviews, pr_review_requests
+// and pr_checks have AUTOINCREMENT ids that only mean something in one cache,
+// so they are left out and reassigned on import.
+const PR_DETAIL_TABLES: Record<PRDetailTable, { hasLocalId: boolean }> = {
+  pr_reviews: { hasLocalId: true },
+  pr_files: { hasLocalId: false },
+  pr_review_requests: { hasLocalId: true },
+  pr_checks: { hasLocalId: true },
+  pr_commits: { hasLocalId: false },
+  pr_issues: { hasLocalId: false },
+};
+
+function withoutLocalId(table: PRDetailTable, row: SnapshotRow): SnapshotRow {
+  if (!PR_DETAIL_TABLES[table].hasLocalId) return row;
+  const rest = { ...row };
+  delete rest.id;
+  return rest;
+}
+
+// PRs read per query while exporting, so no statement stays open between records
+const SNAPSHOT_PAGE_SIZE = 500;
+
+/**
+ * Read the cache as snapshot records: each PR with its detail rows, the issues
+ * those PRs close, releases and deployments with the commits they shipped,
+ * and sync status. Sync status is only included without a date range, since
+ * it claims the cache is complete back to its coverage date.
+ */
+export function* readSnapshotRecords(filter: SnapshotFilter): Generator<SnapshotRecord> {
+  const database = getDatabase();
+
+  const scope = (repoColumn: string, dateColumn: string | null) => {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (filter.repos) {
+      conditions.push(`${repoColumn} IN (${filter.repos.map(() => '?').join(',')})`);
+      params.push(...filter.repos);
+    }
+    if (dateColumn && filter.since) {
+      conditions.push(`${dateColumn} >= ?`);
+      params.push(filter.since);
+    }
+    if (dateColumn && filter.until) {
+      conditions.push(`${dateColumn} <= ?`);
+      params.push(filter.until);
+    }
+    return { conditions, params };
+  };
+
+  const prs = scope('p.repo', DATE_FIELD_COLUMNS[filter.dateField]);
+  const prPage = database.prepare(`
+    SELECT p.* FROM pull_requests p
+    WHERE ${[...prs.conditions, 'p.id > ?'].join(' AND ')}
+    ORDER BY p.id
+    LIMIT ${SNAPSHOT_PAGE_SIZE}
+  `);
+  const detailStmts = Object.keys(PR_DETAIL_TABLES).map((table) => ({
+    table: table as PRDetailTable,
+    stmt: database.prepare(`SELECT * FROM ${table} WHERE pr_id = ? ORDER BY rowid`),
+  }));
+
+  let lastId = -1;
+  for (;;) {
+    const rows = prPage.all(...prs.params, lastId) as SnapshotRow[];
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      const details = {} as Record<PRDetailTable, SnapshotRow[]>;
+      for (const { table, stmt } of detailStmts) {
+        details[table] = (stmt.all(row.id) as SnapshotRow[]).map((detail) => withoutLocalId(table, detail));
+      }
+      yield { type: 'pull_request', row, details };
+    }
+    lastId = rows[rows.length - 1].id as number;
+  }
+
+  const issues = database.prepare(`
+    SELECT DISTINCT i.* FROM issues i
+    JOIN pr_issues pi ON pi.issue_repo = i.repo AND pi.issue_number = i.number
+    JOIN pull_requests p ON p.id = pi.pr_id
+    ${prs.conditions.length > 0 ? `WHERE ${prs.conditions.join(' AND ')}` : ''}
+  `).all(...prs.params) as SnapshotRow[];
+  for (const row of issues) {
+    yield { type: 'issue', row };
+  }
+
+  const releases = scope('repo', 'published_at');
+  const releaseCommits = database.prepare('SELECT sha FROM release_commits WHERE repo = ? AND tag_name = ?').pluck();
+  const releaseRows = database.prepare(`
+    SELECT * FROM releases
+    ${releases.conditions.length > 0 ? `WHERE ${releases.conditions.join(' AND ')}` : ''}
+  `).all(...releases.params) as SnapshotRow[];
+  for (const row of releaseRows) {
+    yield { type: 'release', row, commits: releaseCommits.all(row.repo, row.tag_name) as string[] };
+  }
+
+  const deployments = scope('repo', 'created_at');
+  const deploymentStatuses = database.prepare('SELECT * FROM deployment_statuses WHERE repo = ? AND deployment_id = ?');
+  const deploymentCommits = database.prepare('SELECT sha FROM deployment_commits WHERE repo = ? AND deployment_id = ?').pluck();
+  const deploymentRows = database.prepare(`
+    SELECT * FROM deployments
+    ${deployments.conditions.length > 0 ? `WHERE ${deployments.conditions.join(' AND ')}` : ''}
+  `).all(...deployments.params) as SnapshotRow[];
+  for (const row of deploymentRows) {
+    yield {
+      type: 'deployment',
+      row,
+      statuses: deploymentStatuses.all(row.repo, row.id) as SnapshotRow[],
+      commits: deploymentCommits.all(row.repo, row.id) as string[],
+    };
+  }
+
+  if (!filter.since && !filter.until) {
+    const syncStatus = scope('repo', null);
+    const statusRows = database.prepare(`
+      SELECT * FROM sync_status
+      ${syncStatus.conditions.length > 0 ? `WHERE ${syncStatus.conditions.join(' AND ')}` : ''}
+    `).all(...syncStatus.params) as SnapshotRow[];
+    for (const row of statusRows) {
+      yield { type: 'sync_status', row };
+    }
+  }
+}
+
+const tableColumns = new Map<string, Set<string>>();
+
+// Insert a snapshot row, keeping only the columns this cache's table has
+function insertSnapshotRow(database: Database.Database, table: string, row: SnapshotRow, conflict: 'REPLACE' | 'IGNORE'): void {
+  let columns = tableColumns.get(table);
+  if (!columns) {
+    const info = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    columns = new Set(info.map((column) => column.name));
+    tableColumns.set(table, columns);
+  }
+
+  const keys = Object.keys(row).filter((key) => columns!.has(key));
+  database
+    .prepare(`INSERT OR ${conflict} INTO ${table} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`)
+    .run(...keys.map((key) => row[key]));
+}
+
+/**
+ * Merge one snapshot record into the cache. Returns false if the cache kept
+ * its own data: a PR is only replaced, with all its detail rows, when the
+ * snapshot's copy was updated on GitHub more recently; releases and
+ * deployments when the snapshot has compared more of them; sync status when
+ * the snapshot's sync is newer. Issues are only added.
+ */
+export function importSnapshotRecord(record: SnapshotRecord): boolean {
+  const database = getDatabase();
+
+  const merge = database.transaction((): boolean => {
+    switch (record.type) {
+      case 'pull_request': {
+        const existing = database
+          .prepare('SELECT github_updated_at FROM pull_requests WHERE id = ?')
+          .get(record.row.id) as { github_updated_at: string | null } | undefined;
+        if (existing && (existing.github_updated_at || '') >= String(record.row.github_updated_at || '')) {
+          return false;
+        }
+
+        insertSnapshotRow(database, 'pull_requests', record.row, 'REPLACE');
+        for (const table of Object.keys(PR_DETAIL_TABLES) as PRDetailTable[]) {
+          database.prepare(`DELETE FROM ${table} WHERE pr_id = ?`).run(record.row.id);
+          for (const detail of record.details[table] || []) {
+            insertSnapshotRow(database, table, withoutLocalId(table, detail), 'REPLACE');
+          }
+        }
+        return true;
+      }
+
+      case 'issue': {
+        const existing = database.prepare('SELECT 1 FROM issues WHERE repo = ? AND number = ?').get(record.row.repo, record.row.number);
+        if (existing) return false;
+        insertSnapshotRow(database, 'issues', record.row, 'IGNORE');
+        return true;
+      }
+
+      case 'release': {
+        const existing = database
+          .prepare('SELECT commits_mapped FROM releases WHERE repo = ? AND tag_name = ?')
+          .get(record.row.repo, record.row.tag_name) as { commits_mapped: number } | undefined;
+        if (existing && existing.commits_mapped >= Number(record.row.commits_mapped)) {
+          return false;
+        }
+
+        insertSnapshotRow(database, 'releases', record.row, 'REPLACE');
+        database.prepare('DELETE FROM release_commits WHERE repo = ? AND tag_name = ?').run(record.row.repo, record.row.tag_name);
+        const insert = database.prepare('INSERT OR IGNORE INTO release_commits (repo, tag_name, sha) VALUES (?, ?, ?)');
+        for (const sha of record.commits) {
+          insert.run(record.row.repo, record.row.tag_name, sha);
+        }
+        return true;
+      }
+
+      case 'deployment': {
+        // Finishing and having its commits compared each make a deployment more complete
+        const progress = (row: { state?: unknown; commits_mapped?: unknown }) =>
+          (row.state === 'pending' ? 0 : 1) + Number(row.commits_mapped);
+        const existing = database
+          .prepare('SELECT state, commits_mapped FROM deployments WHERE repo = ? AND id = ?')
+          .get(record.row.repo, record.row.id) as { state: string; commits_mapped: number } | undefined;
+        if (existing && progress(existing) >= progress(record.row)) {
+          return false;
+        }
+
+        insertSnapshotRow(database, 'deployments', record.row, 'REPLACE');
+        database.prepare('DELETE FROM deployment_statuses WHERE repo = ? AND deployment_id = ?').run(record.row.repo, record.row.id);
+        database.prepare('DELETE FROM deployment_commits WHERE repo = ? AND deployment_id = ?').run(record.row.repo, record.row.id);
+        for (const status of record.statuses) {
+          insertSnapshotRow(database, 'deployment_statuses', status, 'REPLACE');
+        }
+        const insert = database.prepare('INSERT OR IGNORE INTO deployment_commits (repo, deployment_id, sha) VALUES (?, ?, ?)');
+        for (const sha of record.commits) {
+          insert.run(record.row.repo, record.row.id, sha);
+        }
+        return true;
+      }
+
+      case 'sync_status': {
+        const existing = database
+          .prepare('SELECT last_synced_at FROM sync_status WHERE repo = ?')
+          .get(record.row.repo) as { last_synced_at: string } | undefined;
+        if (existing && existing.last_synced_at >= String(record.row.last_synced_at)) {
+          return false;
+        }
+
+        insertSnapshotRow(database, 'sync_status', record.row, 'REPLACE');
+        return true;
+      }
+    }
+  });
+
+  return merge();
 }
 
 export function getTotalCachedPRs(): number {
@@ -247,3 +1392,371 @@ export function getTotalCachedPRs(): number {
   const row = stmt.get() as { count: number };
   return row.count;
 }
+
+function rowToSyncJob(row: any): SyncJob {
+  return {
+    id: row.id,
+    status: row.status as SyncJobStatus,
+    fullSync: row.full_sync === 1,
+    repos: JSON.parse(row.repos),
+    skippedRepos: row.skipped_repos ? JSON.parse(row.skipped_repos) : [],
+    completedRepos: row.completed_repos,
+    totalSynced: row.total_synced,
+    currentRepo: row.current_repo,
+    progress: row.progress,
+    results: row.results ? JSON.parse(row.results) : [],
+    error: row.error,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+/**
+ * Insert a queued job unless another job is queued or running. The check and
+ * the insert share one transaction, so concurrent requests can't both start a
+ * job. Returns null if another job is active.
+ */
+export function createSyncJob(id: string, repos: string[], skippedRepos: string[], fullSync: boolean): SyncJob | null {
+  const database = getDatabase();
+
+  const active = database.prepare("SELECT 1 FROM sync_jobs WHERE status IN ('queued', 'running') LIMIT 1");
+  const stmt = database.prepare(`
+    INSERT INTO sync_jobs (id, status, full_sync, repos, skipped_repos, created_at)
+    VALUES (?, 'queued', ?, ?, ?, ?)
+  `);
+
+  const create = database.transaction(() => {
+    if (active.get()) return false;
+
+    stmt.run(id, fullSync ? 1 : 0, JSON.stringify(repos), JSON.stringify(skippedRepos), new Date().toISOString());
+    return true;
+  });
+
+  return create.immediate() ? getSyncJob(id) : null;
+}
+
+export function getSyncJob(id: string): SyncJob | null {
+  const database = getDatabase();
+
+  const stmt = database.prepare('SELECT * FROM sync_jobs WHERE id = ?');
+  const row = stmt.get(id);
+
+  return row ? rowToSyncJob(row) : null;
+}
+
+export function getActiveSyncJob(): SyncJob | null {
+  const database = getDatabase();
+
+  const stmt = database.prepare(`
+    SELECT * FROM sync_jobs
+    WHERE status IN ('queued', 'running')
+    ORDER BY created_at DESC
+    LIMIT 1
+  `);
+  const row = stmt.get();
+
+  return row ? rowToSyncJob(row) : null;
+}
+
+export function getRecentSyncJobs(limit = 20): SyncJob[] {
+  const database = getDatabase();
+
+  const stmt = database.prepare('SELECT * FROM sync_jobs ORDER BY created_at DESC LIMIT ?');
+  const rows = stmt.all(limit) as any[];
+
+  return rows.map(rowToSyncJob);
+}
+
+// Column names for the job fields a runner is allowed to update
+const SYNC_JOB_COLUMNS = {
+  status: 'status',
+  completedRepos: 'completed_repos',
+  totalSynced: 'total_synced',
+  currentRepo: 'current_repo',
+  progress: 'progress',
+  results: 'results',
+  error: 'error',
+  startedAt: 'started_at',
+  finishedAt: 'finished_at',
+} as const;
+
+export type SyncJobUpdate = Partial<Pick<SyncJob, keyof typeof SYNC_JOB_COLUMNS>>;
+
+export function updateSyncJob(id: string, update: SyncJobUpdate): void {
+  const database = getDatabase();
+
+  const fields = Object.keys(update) as Array<keyof SyncJobUpdate>;
+  if (fields.length === 0) return;
+
+  const assignments = fields.map((field) => `${SYNC_JOB_COLUMNS[field]} = ?`).join(', ');
+  const values = fields.map((field) =>
+    field === 'results' ? JSON.stringify(update.results) : update[field]
+  );
+
+  database.prepare(`UPDATE sync_jobs SET ${assignments} WHERE id = ?`).run(...values, id);
+}
+
+// Jobs only run inside the server process, so any job still marked active
+// when a new process starts was interrupted and will never finish.
+export function failInterruptedSyncJobs(): number {
+  const database = getDatabase();
+
+  const stmt = database.prepare(`
+    UPDATE sync_jobs
+    SET status = 'failed', error = 'Interrupted by server restart', finished_at = ?
+    WHERE status IN ('queued', 'running')
+  `);
+
+  return stmt.run(new Date().toISOString()).changes;
+}
+
+export function getSyncCheckpoint(repo: string): SyncCheckpoint | null {
+  const database = getDatabase();
+
+  const stmt = database.prepare('SELECT * FROM sync_checkpoints WHERE repo = ?');
+  const row = stmt.get(repo) as any;
+
+  if (!row) return null;
+
+  return {
+    repo: row.repo,
+    cursor: row.cursor,
+    cutoffDate: row.cutoff_date,
+    coversFromCutoff: row.covers_from_cutoff === 1,
+    fetchedCount: row.fetched_count,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function saveSyncCheckpoint(checkpoint: Omit<SyncCheckpoint, 'updatedAt'>): void {
+  const database = getDatabase();
+
+  const stmt = database.prepare(`
+    INSERT OR REPLACE INTO sync_checkpoints
+    (repo, cursor, cutoff_date, covers_from_cutoff, fetched_count, started_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  stmt.run(
+    checkpoint.repo,
+    checkpoint.cursor,
+    checkpoint.cutoffDate,
+    checkpoint.coversFromCutoff ? 1 : 0,
+    checkpoint.fetchedCount,
+    checkpoint.startedAt,
+    new Date().toISOString()
+  );
+}
+
+export function deleteSyncCheckpoint(repo: string): void {
+  const database = getDatabase();
+  database.prepare('DELETE FROM sync_checkpoints WHERE repo = ?').run(repo);
+}
+
+export function deleteStaleSyncCheckpoints(olderThan: Date): number {
+  const database = getDatabase();
+
+  const stmt = database.prepare('DELETE FROM sync_checkpoints WHERE updated_at < ?');
+  return stmt.run(olderThan.toISOString()).changes;
+}
+
+function rowToWebhookDelivery(row: any): WebhookDelivery {
+  return {
+    id: row.id,
+    event: row.event,
+    action: row.action,
+    repo: row.repo,
+    status: row.status as WebhookDeliveryStatus,
+    error: row.error,
+    payload: JSON.parse(row.payload),
+    receivedAt: row.received_at,
+    processedAt: row.processed_at,
+  };
+}
+
+export function saveWebhookDelivery(delivery: WebhookDelivery): void {
+  const database = getDatabase();
+
+  const stmt = database.prepare(`
+    INSERT OR REPLACE INTO webhook_deliveries
+    (id, event, action, repo, status, error, payload, received_at, processed_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  stmt.run(
+    delivery.id,
+    delivery.event,
+    delivery.action,
+    delivery.repo,
+    delivery.status,
+    delivery.error,
+    JSON.stringify(delivery.payload),
+    delivery.receivedAt,
+    delivery.processedAt
+  );
+}
+
+export function getWebhookDelivery(id: string): WebhookDelivery | null {
+  const database = getDatabase();
+
+  const stmt = database.prepare('SELECT * FROM webhook_deliveries WHERE id = ?');
+  const row = stmt.get(id);
+
+  return row ? rowToWebhookDelivery(row) : null;
+}
+
+export function getWebhookDeliveries(status?: WebhookDeliveryStatus, limit = 100): WebhookDelivery[] {
+  const database = getDatabase();
+
+  const rows = status
+    ? database.prepare('SELECT * FROM webhook_deliveries WHERE status = ? ORDER BY received_at DESC LIMIT ?').all(status, limit)
+    : database.prepare('SELECT * FROM webhook_deliveries ORDER BY received_at DESC LIMIT ?').all(limit);
+
+  return rows.map(rowToWebhookDelivery);
+}
+
+export function recordScheduledSyncRun(run: Omit<ScheduledSyncRun, 'id'>): void {
+  const database = getDatabase();
+
+  const stmt = database.prepare(`
+    INSERT INTO scheduled_sync_runs (schedule, status, job_id, error, scheduled_for, started_at, finished_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  stmt.run(run.schedule, run.status, run.jobId, run.error, run.scheduledFor, run.startedAt, run.finishedAt);
+}
+
+export function getLastScheduledSyncRun(schedule: string): ScheduledSyncRun | null {
+  const database = getDatabase();
+
+  const stmt = database.prepare(`
+    SELECT * FROM scheduled_sync_runs
+    WHERE schedule = ?
+    ORDER BY started_at DESC
+    LIMIT 1
+  `);
+  const row = stmt.get(schedule) as any;
+
+  if (!row) return null;
+
+  return {
+    id: row.id,
+    schedule: row.schedule,
+    status: row.status as ScheduledSyncRunStatus,
+    jobId: row.job_id,
+    error: row.error,
+    scheduledFor: row.scheduled_for,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+/**
+ * Create a session. With previousId, that session's accounts move to the new
+ * one and it is revoked, in one transaction.
+ */
+export function createSession(id: string, expiresAt: Date, previousId: string | null = null): void {
+  const database = getDatabase();
+
+  const insert = database.prepare('INSERT INTO sessions (id, created_at, expires_at) VALUES (?, ?, ?)');
+  const moveAccounts = database.prepare('UPDATE session_accounts SET session_id = ? WHERE session_id = ?');
+  const revoke = database.prepare('UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL');
+
+  database.transaction(() => {
+    const now = new Date().toISOString();
+    insert.run(id, now, expiresAt.toISOString());
+    if (previousId) {
+      moveAccounts.run(id, previousId);
+      revoke.run(now, previousId);
+    }
+  })();
+}
+
+// A session that is neither expired nor revoked, with its signed-in accounts
+export function getActiveSession(id: string): Session | null {
+  const database = getDatabase();
+
+  const row = database.prepare(`
+    SELECT * FROM sessions
+    WHERE id = ? AND revoked_at IS NULL AND expires_at > ?
+  `).get(id, new Date().toISOString()) as any;
+
+  if (!row) return null;
+
+  const accounts = database.prepare(`
+    SELECT host, login, name, avatar_url, signed_in_at FROM session_accounts
+    WHERE session_id = ?
+    ORDER BY signed_in_at
+  `).all(id) as any[];
+
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    accounts: accounts.map((account): SessionAccount => ({
+      host: account.host,
+      login: account.login,
+      name: account.name,
+      avatarUrl: account.avatar_url,
+      signedInAt: account.signed_in_at,
+    })),
+  };
+}
+
+// Add or replace the session's account on a host, and move the session's expiry to expiresAt
+export function saveSessionAccount(sessionId: string, account: SessionAccount, encryptedToken: string, expiresAt: Date): void {
+  const database = getDatabase();
+
+  const saveAccount = database.prepare(`
+    INSERT OR REPLACE INTO session_accounts
+    (session_id, host, login, name, avatar_url, encrypted_token, signed_in_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  const extend = database.prepare('UPDATE sessions SET expires_at = ? WHERE id = ?');
+
+  database.transaction(() => {
+    saveAccount.run(
+      sessionId,
+      account.host,
+      account.login,
+      account.name,
+      account.avatarUrl,
+      encryptedToken,
+      account.signedInAt
+    );
+    extend.run(expiresAt.toISOString(), sessionId);
+  })();
+}
+
+export function getSessionEncryptedTokens(sessionId: string): { host: string; encryptedToken: string }[] {
+  const database = getDatabase();
+
+  const rows = database.prepare('SELECT host, encrypted_token FROM session_accounts WHERE session_id = ?').all(sessionId) as any[];
+  return rows.map((row) => ({ host: row.host, encryptedToken: row.encrypted_token }));
+}
+
+// Mark a session revoked and drop its tokens; the session row stays until it expires
+export function revokeSession(id: string): void {
+  const database = getDatabase();
+
+  database.transaction(() => {
+    database.prepare('UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL').run(new Date().toISOString(), id);
+    database.prepare('DELETE FROM session_accounts WHERE session_id = ?').run(id);
+  })();
+}
+
+export function deleteExpiredSessions(): number {
+  const database = getDatabase();
+
+  return database.transaction(() => {
+    const now = new Date().toISOString();
+    database.prepare(`
+      DELETE FROM session_accounts
+      WHERE session_id IN (SELECT id FROM sessions WHERE expires_at <= ?)
+    `).run(now);
+    return database.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(now).changes;
+  })();
+}
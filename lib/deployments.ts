@@ -0,0 +1,95 @@
+import { Octokit } from '@octokit/rest';
+import { isRateLimitError } from './sync';
+import { fetchCommitsBetween } from './releases';
+import { parseGitHubRepo } from './github';
+import { getDeploymentsToMap, getFinishedDeploymentIds, saveDeployment, saveDeploymentCommits } from './database';
+import { DeploymentState, DeploymentStatus } from '@/types';
+
+const FAILED_STATES = ['failure', 'error'];
+
+/**
+ * Reduce a deployment's status history to its outcome: succeeded if any
+ * status succeeded, failed if one failed or errored, otherwise pending.
+ */
+function getDeploymentOutcome(statuses: DeploymentStatus[]): { state: DeploymentState; finishedAt: string | null } {
+  const sorted = [...statuses].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const success = sorted.find((status) => status.state === 'success');
+  if (success) {
+    return { state: 'success', finishedAt: success.createdAt };
+  }
+
+  const failure = sorted.find((status) => FAILED_STATES.includes(status.state));
+  if (failure) {
+    return { state: 'failure', finishedAt: failure.createdAt };
+  }
+
+  return { state: 'pending', finishedAt: null };
+}
+
+/**
+ * Sync a repo's deployments to the given environments back to the cutoff
+ * date, then record which commits each successful deployment shipped: the
+ * commits its SHA contains that the previous successful deployment to the
+ * same environment didn't. Statuses are only refetched for deployments that
+ * haven't finished yet.
+ */
+export async function syncDeployments(
+  octokit: Octokit,
+  repoPath: string,
+  cutoffDate: Date,
+  environments: string[]
+): Promise<{ deployments: number; mapped: number }> {
+  const { owner, repo } = parseGitHubRepo(repoPath);
+  const finished = getFinishedDeploymentIds(repoPath);
+
+  // Deployments are listed newest first
+  let saved = 0;
+  const iterator = octokit.paginate.iterator(octokit.rest.repos.listDeployments, { owner, repo, per_page: 100 });
+  pages: for await (const { data: deployments } of iterator) {
+    for (const deployment of deployments) {
+      if (new Date(deployment.created_at) < cutoffDate) {
+        break pages;
+      }
+      if (!environments.includes(deployment.environment.toLowerCase()) || finished.has(deployment.id)) continue;
+
+      const statuses: DeploymentStatus[] = (await octokit.paginate(octokit.rest.repos.listDeploymentStatuses, {
+        owner,
+        repo,
+        deployment_id: deployment.id,
+        per_page: 100,
+      })).map((status) => ({ id: status.id, state: status.state, createdAt: status.created_at }));
+
+      saveDeployment({
+        repo: repoPath,
+        id: deployment.id,
+        environment: deployment.environment,
+        sha: deployment.sha,
+        ref: deployment.ref,
+        createdAt: deployment.created_at,
+        ...getDeploymentOutcome(statuses),
+      }, statuses);
+      saved++;
+    }
+  }
+
+  let mapped = 0;
+  for (const { deployment, previous } of getDeploymentsToMap(repoPath)) {
+    try {
+      const shas = previous && previous.sha !== deployment.sha
+        ? await fetchCommitsBetween(octokit, repoPath, previous.sha, deployment.sha)
+        : [];
+      saveDeploymentCommits(repoPath, deployment.id, shas);
+      mapped++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      // Rate limits stop the sync; other failures leave the deployment to be compared next time
+      if (isRateLimitError(message)) {
+        throw error;
+      }
+      console.warn(`Could not compare ${repoPath} deployment ${deployment.id}:`, message);
+    }
+  }
+
+  return { deployments: saved, mapped };
+}
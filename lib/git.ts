@@ -0,0 +1,240 @@
+import { execFile, spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { promisify } from 'util';
+import { getPathPrefix, resolveCommitAuthor } from './analyzer';
+import { getLanguageBreakdown, SyncRepositoryResult } from './sync';
+import {
+  saveLocalCommits,
+  deleteLocalCommitsBefore,
+  getLocalCommitCount,
+  getLastSyncedAt,
+  updateSyncStatus,
+} from './database';
+import { CommitAnalysis, CommitAuthorStats, CommitPathStats, LocalCommit } from '@/types';
+
+const execFileAsync = promisify(execFile);
+
+// Commits saved per transaction
+const SAVE_BATCH_SIZE = 500;
+
+// Separators git won't find in names or subjects: one before each commit, one between its fields
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+const LOG_FORMAT = `${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%ae${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%cI${FIELD_SEPARATOR}%s`;
+
+// "12\t3\tpath"; binary files have "-" for both counts
+const NUMSTAT_LINE = /^(\d+|-)\t(\d+|-)\t(.+)$/;
+
+export async function validateLocalRepository(repoDir: string): Promise<boolean> {
+  try {
+    await execFileAsync('git', ['-C', repoDir, 'rev-parse', '--git-dir']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the path numstat prints for a renamed file to its new path:
+ * "src/{old => new}/lib.rs" is "src/new/lib.rs", "old.rs => new.rs" is "new.rs".
+ */
+export function getRenamedPath(path: string): string {
+  if (/\{[^{}]* => [^{}]*\}/.test(path)) {
+    return path.replace(/\{[^{}]* => ([^{}]*)\}/, '$1').replace(/\/\/+/g, '/').replace(/^\//, '');
+  }
+  const arrow = path.indexOf(' => ');
+  return arrow === -1 ? path : path.slice(arrow + 4);
+}
+
+/**
+ * Read the non-merge commits on a clone's HEAD from `git log --numstat`,
+ * newest first. With `since`, only commits committed after it are read.
+ */
+export async function* readGitLog(repoDir: string, repoPath: string, since?: Date): AsyncGenerator<LocalCommit> {
+  const args = ['-C', repoDir, '-c', 'core.quotePath=false', 'log', '--no-merges', '--numstat', `--format=${LOG_FORMAT}`];
+  if (since) {
+    args.push(`--since=${since.toISOString()}`);
+  }
+
+  const git = spawn('git', args);
+  let stderr = '';
+  git.stderr.on('data', (chunk) => { stderr += chunk; });
+  // Resolves on a spawn error too, so it can't go unhandled while the output is read
+  const exited = new Promise<{ code: number | null; error?: Error }>((resolve) => {
+    git.on('error', (error) => resolve({ code: null, error }));
+    git.on('close', (code) => resolve({ code }));
+  });
+
+  let commit: LocalCommit | null = null;
+  try {
+    for await (const line of createInterface({ input: git.stdout, crlfDelay: Infinity })) {
+      if (line.startsWith(RECORD_SEPARATOR)) {
+        if (commit) yield commit;
+
+        const [sha, authorName, authorEmail, authoredAt, committedAt, messageHeadline] = line.slice(1).split(FIELD_SEPARATOR);
+        commit = {
+          repo: repoPath,
+          sha,
+          authorName,
+          authorEmail,
+          authoredAt: new Date(authoredAt).toISOString(),
+          committedAt: new Date(committedAt).toISOString(),
+          messageHeadline: messageHeadline || '',
+          additions: 0,
+          deletions: 0,
+          files: [],
+        };
+        continue;
+      }
+
+      const match = line.match(NUMSTAT_LINE);
+      if (commit && match) {
+        const additions = match[1] === '-' ? 0 : parseInt(match[1], 10);
+        const deletions = match[2] === '-' ? 0 : parseInt(match[2], 10);
+        commit.files.push({ path: getRenamedPath(match[3]), additions, deletions });
+        commit.additions += additions;
+        commit.deletions += deletions;
+      }
+    }
+    if (commit) yield commit;
+
+    const { code, error } = await exited;
+    if (error) {
+      throw error;
+    }
+    if (code !== 0) {
+      throw new Error(`git log failed in ${repoDir}: ${stderr.trim() || `exit code ${code}`}`);
+    }
+  } finally {
+    // Stop git if the reader gave up early
+    if (git.exitCode === null) {
+      git.kill();
+    }
+  }
+}
+
+export interface SyncLocalRepositoryOptions {
+  fullSync?: boolean;
+  onProgress?: (fetched: number) => void;
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Ingest a local clone's commits into the cache. The whole history is read on
+ * the first and on full syncs, which also drop commits no longer on HEAD;
+ * quick syncs read commits committed since a day before the last sync. No
+ * sync horizon applies.
+ */
+export async function syncLocalRepository(
+  repoDir: string,
+  repoPath: string,
+  options: SyncLocalRepositoryOptions = {}
+): Promise<SyncRepositoryResult> {
+  const startedAt = new Date();
+  const lastSynced = options.fullSync ? null : getLastSyncedAt(repoPath);
+  const since = lastSynced ? new Date(lastSynced.getTime() - 24 * 60 * 60 * 1000) : undefined;
+
+  let batch: LocalCommit[] = [];
+  let fetched = 0;
+  let cancelled = false;
+
+  const flush = () => {
+    saveLocalCommits(batch, startedAt);
+    fetched += batch.length;
+    batch = [];
+    options.onProgress?.(fetched);
+  };
+
+  for await (const commit of readGitLog(repoDir, repoPath, since)) {
+    if (options.isCancelled?.()) {
+      cancelled = true;
+      break;
+    }
+
+    batch.push(commit);
+    if (batch.length >= SAVE_BATCH_SIZE) {
+      flush();
+    }
+  }
+
+  if (!cancelled) {
+    flush();
+    if (!since) {
+      deleteLocalCommitsBefore(repoPath, startedAt);
+    }
+    updateSyncStatus(repoPath, getLocalCommitCount(repoPath), undefined, startedAt);
+  }
+
+  return { synced: fetched, cancelled, resumed: false };
+}
+
+/**
+ * Aggregate local commits by author, by directory prefix (at `depth`
+ * segments, as in path analytics) and by language. Authors are merged by
+ * GitHub noreply login or by name.
+ */
+export function aggregateCommits(commits: LocalCommit[], depth: number): CommitAnalysis {
+  const authorMap = new Map<string, CommitAuthorStats>();
+  const pathMap = new Map<string, CommitPathStats & { authorSet: Set<string> }>();
+
+  for (const commit of commits) {
+    const author = resolveCommitAuthor(commit.authorName, commit.authorEmail, new Map());
+
+    let authorStats = authorMap.get(author);
+    if (!authorStats) {
+      authorStats = {
+        author,
+        emails: [],
+        commits: 0,
+        additions: 0,
+        deletions: 0,
+        firstCommitAt: commit.authoredAt,
+        lastCommitAt: commit.authoredAt,
+      };
+      authorMap.set(author, authorStats);
+    }
+    authorStats.commits++;
+    authorStats.additions += commit.additions;
+    authorStats.deletions += commit.deletions;
+    if (!authorStats.emails.includes(commit.authorEmail)) {
+      authorStats.emails.push(commit.authorEmail);
+    }
+    if (commit.authoredAt < authorStats.firstCommitAt) authorStats.firstCommitAt = commit.authoredAt;
+    if (commit.authoredAt > authorStats.lastCommitAt) authorStats.lastCommitAt = commit.authoredAt;
+
+    // A commit counts once per directory, however many of its files are there
+    const touched = new Set<string>();
+    for (const file of commit.files) {
+      const prefix = getPathPrefix(file.path, depth);
+      const key = `${commit.repo}:${prefix}`;
+
+      let pathStats = pathMap.get(key);
+      if (!pathStats) {
+        pathStats = { repo: commit.repo, path: prefix, commits: 0, additions: 0, deletions: 0, authors: 0, authorSet: new Set() };
+        pathMap.set(key, pathStats);
+      }
+      pathStats.additions += file.additions;
+      pathStats.deletions += file.deletions;
+      pathStats.authorSet.add(author);
+      if (!touched.has(key)) {
+        touched.add(key);
+        pathStats.commits++;
+      }
+    }
+  }
+
+  const languages = Object.fromEntries(
+    Object.entries(getLanguageBreakdown(commits.flatMap((commit) => commit.files))).sort((a, b) => b[1] - a[1])
+  );
+
+  return {
+    totalCommits: commits.length,
+    additions: commits.reduce((sum, commit) => sum + commit.additions, 0),
+    deletions: commits.reduce((sum, commit) => sum + commit.deletions, 0),
+    byAuthor: Array.from(authorMap.values()).sort((a, b) => b.commits - a.commits),
+    byPath: Array.from(pathMap.values())
+      .map(({ authorSet, ...stats }) => ({ ...stats, authors: authorSet.size }))
+      .sort((a, b) => (b.additions + b.deletions) - (a.additions + a.deletions)),
+    languages,
+  };
+}
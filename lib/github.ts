@@ -1,17 +1,130 @@
 import { Octokit } from '@octokit/rest';
-import { PullRequest } from '@/types';
+import { GitHubAppConfig, PullRequest, RepoConfig } from '@/types';
 import { calculatePRSize } from './analyzer';
 
-// Create Octokit instance with optional token
-export function createOctokit(token?: string): Octokit {
-  const authToken = token || process.env.GITHUB_TOKEN;
+export const DEFAULT_GITHUB_HOST = 'github.com';
+
+// Endpoints and credentials of github.com or a GitHub Enterprise Server instance
+export interface GitHubHost {
+  name: string; // e.g. "github.com" or "github.example.com"
+  url: string;
+  apiUrl: string;
+  graphqlUrl: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  envPrefix: string; // <prefix>_CLIENT_ID, <prefix>_CLIENT_SECRET and <prefix>_TOKEN hold its credentials
+  app: GitHubAppConfig | null; // GitHub App whose installations sync the host's repos
+}
+
+const GITHUB_COM: GitHubHost = {
+  name: DEFAULT_GITHUB_HOST,
+  url: 'https://github.com',
+  apiUrl: 'https://api.github.com',
+  graphqlUrl: 'https://api.github.com/graphql',
+  authorizeUrl: 'https://github.com/login/oauth/authorize',
+  tokenUrl: 'https://github.com/login/oauth/access_token',
+  envPrefix: 'GITHUB',
+  app: null,
+};
+
+/**
+ * Resolve a host to its endpoints: github.com, or a GitHub Enterprise Server
+ * host from `githubHosts` in the config. Endpoints that aren't configured
+ * follow the GHES defaults under the host's URL.
+ */
+export function getGitHubHost(config: RepoConfig, name: string = DEFAULT_GITHUB_HOST): GitHubHost {
+  if (name === DEFAULT_GITHUB_HOST) {
+    return { ...GITHUB_COM, app: config.githubApp || null };
+  }
+
+  const host = config.githubHosts?.[name];
+  if (!host) {
+    throw new Error(`Unknown GitHub host "${name}". Add it to githubHosts in config/repos.json`);
+  }
+
+  const url = (host.url || `https://${name}`).replace(/\/+$/, '');
+  return {
+    name,
+    url,
+    apiUrl: host.apiUrl || `${url}/api/v3`,
+    graphqlUrl: host.graphqlUrl || `${url}/api/graphql`,
+    authorizeUrl: host.authorizeUrl || `${url}/login/oauth/authorize`,
+    tokenUrl: host.tokenUrl || `${url}/login/oauth/access_token`,
+    envPrefix: host.envPrefix || name.toUpperCase().replace(/[^A-Z0-9]+/g, '_'),
+    app: host.app || null,
+  };
+}
+
+// Names of the configured GitHub Enterprise Server hosts
+export function getEnterpriseHostNames(config: RepoConfig): string[] {
+  return Object.keys(config.githubHosts || {});
+}
+
+/**
+ * Split a configured GitHub repo into its host, owner and name: "owner/repo"
+ * is on github.com, "host/owner/repo" on a GitHub Enterprise Server host.
+ */
+export function parseGitHubRepo(repoPath: string): { host: string; owner: string; repo: string } {
+  const parts = repoPath.split('/');
+  if (parts.length === 3) {
+    return { host: parts[0], owner: parts[1], repo: parts[2] };
+  }
+  return { host: DEFAULT_GITHUB_HOST, owner: parts[0], repo: parts[1] };
+}
+
+// Configured name of a repo on the given host
+export function formatGitHubRepo(hostName: string, fullName: string): string {
+  return hostName === DEFAULT_GITHUB_HOST ? fullName : `${hostName}/${fullName}`;
+}
+
+// Octokit derives the GraphQL endpoint from the API URL; send GraphQL requests to the host's configured one instead
+export function withGraphQLUrl(octokit: Octokit, host: GitHubHost): Octokit {
+  octokit.hook.before('request', (options) => {
+    if (options.url === '/graphql' || options.url.endsWith('/api/graphql')) {
+      options.url = host.graphqlUrl;
+    }
+  });
+
+  return octokit;
+}
+
+/**
+ * Revoke an OAuth token and the app's authorization of its user through the
+ * host's application grant endpoint, so a stolen token stops working too.
+ * A token that was already revoked is not an error.
+ */
+export async function revokeOAuthGrant(host: GitHubHost, token: string): Promise<void> {
+  const clientId = process.env[`${host.envPrefix}_CLIENT_ID`];
+  const clientSecret = process.env[`${host.envPrefix}_CLIENT_SECRET`];
+  if (!clientId || !clientSecret) {
+    throw new Error(`GitHub OAuth not configured for ${host.name}`);
+  }
+
+  const response = await fetch(`${host.apiUrl}/applications/${clientId}/grant`, {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+      'Accept': 'application/vnd.github.v3+json',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ access_token: token }),
+  });
+
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`${host.name} returned ${response.status} revoking the OAuth grant`);
+  }
+}
+
+// Create Octokit instance for a host (github.com by default) with optional token
+export function createOctokit(token?: string, host: GitHubHost = GITHUB_COM): Octokit {
+  const authToken = token || process.env[`${host.envPrefix}_TOKEN`];
 
   if (authToken) {
-    return new Octokit({ auth: authToken });
+    return withGraphQLUrl(new Octokit({ auth: authToken, baseUrl: host.apiUrl }), host);
   }
 
   // Unauthenticated - lower rate limits but works for public repos
-  return new Octokit();
+  return withGraphQLUrl(new Octokit({ baseUrl: host.apiUrl }), host);
 }
 
 export async function fetchPullRequests(
@@ -80,6 +193,7 @@ export async function fetchPullRequests(
           createdAt: pr.created_at,
           mergedAt: prDetail.merged_at,
           closedAt: prDetail.closed_at,
+          updatedAt: prDetail.updated_at,
           additions: prDetail.additions,
           deletions: prDetail.deletions,
           changedFiles: prDetail.changed_files,
@@ -114,6 +228,7 @@ export async function fetchPullRequests(
           createdAt: pr.created_at,
           mergedAt: pr.merged_at || null,
           closedAt: pr.closed_at || null,
+          updatedAt: pr.updated_at,
           additions: 0,
           deletions: 0,
           changedFiles: 0,
@@ -165,8 +280,8 @@ export async function fetchAllRepositories(
   );
 }
 
-export async function validateRepository(owner: string, repo: string, token?: string): Promise<boolean> {
-  const octokit = createOctokit(token);
+export async function validateRepository(owner: string, repo: string, token?: string, host?: GitHubHost): Promise<boolean> {
+  const octokit = createOctokit(token, host);
 
   try {
     await octokit.rest.repos.get({ owner, repo });
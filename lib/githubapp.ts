@@ -0,0 +1,142 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { App } from '@octokit/app';
+import { Octokit } from '@octokit/rest';
+import { createOctokit, GitHubHost, withGraphQLUrl } from './github';
+import { GitHubAppInstallation } from '@/types';
+
+// Installations are listed again after this long, so new ones are picked up without a restart
+const INSTALLATIONS_TTL_MS = 10 * 60 * 1000;
+
+interface CachedRepositories {
+  names: Set<string>; // Lowercased owner/repo
+  listedAt: number;
+}
+
+interface CachedApp {
+  app: App<{ Octokit: typeof Octokit }>;
+  installations: GitHubAppInstallation[] | null;
+  listedAt: number;
+  repositories: Map<number, CachedRepositories>; // By installation, for installations on selected repos
+}
+
+// Kept on globalThis so every route shares the apps and their cached installation tokens
+const globalForApps = globalThis as unknown as { githubApps?: Map<string, CachedApp> };
+
+if (!globalForApps.githubApps) {
+  globalForApps.githubApps = new Map();
+}
+
+const apps = globalForApps.githubApps;
+
+function getCachedApp(host: GitHubHost): CachedApp | null {
+  if (!host.app) return null;
+
+  const key = `${host.name}#${host.app.appId}`;
+  let cached = apps.get(key);
+  if (!cached) {
+    const privateKey = readFileSync(path.resolve(process.cwd(), host.app.privateKeyPath), 'utf-8');
+    const app = new App({
+      appId: host.app.appId,
+      privateKey,
+      Octokit: Octokit.defaults({ baseUrl: host.apiUrl }),
+    });
+    cached = { app, installations: null, listedAt: 0, repositories: new Map() };
+    apps.set(key, cached);
+  }
+
+  return cached;
+}
+
+/**
+ * List the installations of the host's GitHub App, or an empty list if no app
+ * is configured for the host.
+ */
+export async function listInstallations(host: GitHubHost, refresh = false): Promise<GitHubAppInstallation[]> {
+  const cached = getCachedApp(host);
+  if (!cached) return [];
+
+  if (!refresh && cached.installations && Date.now() - cached.listedAt < INSTALLATIONS_TTL_MS) {
+    return cached.installations;
+  }
+
+  const installations: GitHubAppInstallation[] = [];
+  for await (const { installation } of cached.app.eachInstallation.iterator()) {
+    installations.push({
+      id: installation.id,
+      account: installation.account && 'login' in installation.account ? installation.account.login : '',
+      accountType: installation.target_type,
+      repositorySelection: installation.repository_selection,
+      suspended: Boolean(installation.suspended_at),
+    });
+  }
+
+  cached.installations = installations;
+  cached.listedAt = Date.now();
+  cached.repositories.clear();
+  return installations;
+}
+
+/**
+ * List the repos an installation can read, as lowercased owner/repo. Only
+ * needed for installations on selected repos; others can read all of the
+ * owner's repos.
+ */
+export async function listInstallationRepositories(host: GitHubHost, installationId: number): Promise<Set<string>> {
+  const cached = getCachedApp(host);
+  if (!cached) return new Set();
+
+  const repositories = cached.repositories.get(installationId);
+  if (repositories && Date.now() - repositories.listedAt < INSTALLATIONS_TTL_MS) {
+    return repositories.names;
+  }
+
+  const octokit = await cached.app.getInstallationOctokit(installationId);
+  const repos = await octokit.paginate(octokit.rest.apps.listReposAccessibleToInstallation, { per_page: 100 });
+  const names = new Set(repos.map((repo) => repo.full_name.toLowerCase()));
+  cached.repositories.set(installationId, { names, listedAt: Date.now() });
+  return names;
+}
+
+/**
+ * ID of the app installation that can read a repo, or null if the app isn't
+ * installed on its owner or, when installed on selected repos only, the repo
+ * isn't one of them. Such repos sync with the user's or the server token.
+ * Without a repo, any installation on the owner is returned.
+ */
+export async function getInstallationId(host: GitHubHost, owner: string, repo?: string): Promise<number | null> {
+  const installations = await listInstallations(host);
+  const installation = installations.find((i) => !i.suspended && i.account.toLowerCase() === owner.toLowerCase());
+  if (!installation) return null;
+
+  if (repo && installation.repositorySelection === 'selected') {
+    const repositories = await listInstallationRepositories(host, installation.id);
+    if (!repositories.has(`${owner}/${repo}`.toLowerCase())) return null;
+  }
+
+  return installation.id;
+}
+
+/**
+ * Create an Octokit authenticated as an app installation. Its installation
+ * token is created on first use and renewed before it expires, so it lasts
+ * for syncs longer than the token's hour.
+ */
+export async function createInstallationOctokit(host: GitHubHost, installationId: number): Promise<Octokit> {
+  const cached = getCachedApp(host);
+  if (!cached) {
+    throw new Error(`No GitHub App configured for ${host.name}`);
+  }
+
+  return withGraphQLUrl(await cached.app.getInstallationOctokit(installationId), host);
+}
+
+/**
+ * Create an Octokit for server-side work on a repo, such as webhooks: the app
+ * installation that can read it if there is one, otherwise the host's server
+ * token.
+ */
+export async function createServerOctokit(host: GitHubHost, owner: string, repo: string): Promise<Octokit> {
+  const installationId = await getInstallationId(host, owner, repo);
+  return installationId ? createInstallationOctokit(host, installationId) : createOctokit(undefined, host);
+}
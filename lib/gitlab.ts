@@ -0,0 +1,358 @@
+import { createHash } from 'crypto';
+import { calculatePRSize } from './analyzer';
+import { getLanguageBreakdown, parseCoAuthors } from './sync';
+import type { PullRequestSource } from './providers';
+import { CIState, LinkedIssue, MergeMethod, PRCommit, PRFile, PRReview, PullRequest, RepoConfig } from '@/types';
+
+export const DEFAULT_GITLAB_URL = 'https://gitlab.com';
+
+// Merge requests per page; each one costs several follow-up requests
+const MR_PAGE_SIZE = 20;
+const DETAIL_PAGE_SIZE = 100;
+const MAX_DIFF_PAGES = 10;
+const MAX_NOTE_PAGES = 5;
+const MAX_COMMIT_PAGES = 3;
+const MAX_RETRIES = 5;
+
+// System notes GitLab posts when a reviewer approves or asks for changes
+const APPROVAL_NOTE = /^approved this merge request/i;
+const CHANGES_REQUESTED_NOTE = /^requested changes/i;
+
+interface GitLabUser {
+  username: string;
+  avatar_url: string | null;
+}
+
+interface GitLabMergeRequest {
+  id: number;
+  iid: number;
+  title: string;
+  state: 'opened' | 'closed' | 'merged' | 'locked';
+  created_at: string;
+  updated_at: string;
+  merged_at: string | null;
+  closed_at: string | null;
+  draft?: boolean;
+  work_in_progress?: boolean;
+  target_branch: string;
+  source_branch: string;
+  labels: string[];
+  milestone: { title: string } | null;
+  author: GitLabUser | null;
+  reviewers?: GitLabUser[];
+  sha: string | null;
+  merge_commit_sha: string | null;
+  squash_commit_sha: string | null;
+  web_url: string;
+  head_pipeline?: { status: string } | null;
+}
+
+interface GitLabDiff {
+  old_path: string;
+  new_path: string;
+  diff: string;
+}
+
+interface GitLabNote {
+  body: string;
+  system: boolean;
+  type: string | null; // "DiffNote" for comments on the diff
+  created_at: string;
+  author: GitLabUser;
+}
+
+interface GitLabCommit {
+  id: string;
+  title: string;
+  message: string;
+  author_name: string;
+  author_email: string;
+  committer_name: string;
+  committed_date: string;
+}
+
+interface GitLabIssue {
+  iid: number;
+  title: string;
+  web_url: string;
+  author: GitLabUser | null;
+  created_at: string;
+  closed_at: string | null;
+  labels: string[];
+  references: { full: string }; // e.g. "group/project#12"
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+type GitLabRequest = <T>(path: string, params?: Record<string, string | number>) => Promise<{ data: T; nextPage: string | null }>;
+
+/**
+ * Create a client for the GitLab REST API at the configured base URL,
+ * authenticated with GITLAB_TOKEN if set. Rate-limited requests wait for the
+ * limit to reset and are retried.
+ */
+function createGitLabClient(config: RepoConfig): GitLabRequest {
+  const baseUrl = (config.gitlabUrl || DEFAULT_GITLAB_URL).replace(/\/+$/, '');
+  const token = process.env.GITLAB_TOKEN;
+
+  return async <T>(path: string, params: Record<string, string | number> = {}) => {
+    const url = new URL(`${baseUrl}/api/v4${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, String(value));
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, { headers: token ? { 'PRIVATE-TOKEN': token } : {} });
+
+      if (response.status === 429 && attempt < MAX_RETRIES) {
+        const retryAfter = parseInt(response.headers.get('retry-after') || '', 10);
+        await sleep((retryAfter || 60) * 1000);
+        continue;
+      }
+      if (response.status === 429) {
+        throw new Error(`GitLab rate limit exceeded for ${path}`);
+      }
+      if (!response.ok) {
+        throw new Error(`GitLab API returned ${response.status} for ${path}`);
+      }
+
+      return { data: (await response.json()) as T, nextPage: response.headers.get('x-next-page') || null };
+    }
+  };
+}
+
+// Fetch up to maxPages pages of a list; truncated is set if more pages remained
+async function fetchPages<T>(
+  request: GitLabRequest,
+  path: string,
+  params: Record<string, string | number>,
+  maxPages: number
+): Promise<{ items: T[]; truncated: boolean }> {
+  const items: T[] = [];
+  let page: string | null = '1';
+
+  for (let fetched = 0; page && fetched < maxPages; fetched++) {
+    const response: { data: T[]; nextPage: string | null } = await request<T[]>(path, { ...params, page, per_page: DETAIL_PAGE_SIZE });
+    items.push(...response.data);
+    page = response.nextPage;
+  }
+
+  return { items, truncated: page !== null };
+}
+
+/**
+ * GitLab IDs can collide with GitHub's, so cached merge requests get a
+ * negative ID derived from the repo and MR number instead.
+ */
+function getMergeRequestId(repo: string, iid: number): number {
+  const hash = createHash('sha1').update(`${repo}!${iid}`).digest();
+  return -hash.readUIntBE(0, 6);
+}
+
+function countDiffLines(diff: string): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+') && !line.startsWith('+++')) additions++;
+    else if (line.startsWith('-') && !line.startsWith('---')) deletions++;
+  }
+  return { additions, deletions };
+}
+
+/**
+ * Turn merge request notes into reviews. GitLab has no review objects:
+ * approvals and change requests are system notes, and each reviewer's
+ * comments become one commented review at their first comment. The author's
+ * own notes aren't reviews.
+ */
+function toReviews(notes: GitLabNote[], author: string): PRReview[] {
+  const reviews: PRReview[] = [];
+  const comments = new Map<string, PRReview>();
+
+  const sorted = [...notes].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  for (const note of sorted) {
+    const reviewer = note.author.username;
+    if (reviewer === author) continue;
+
+    if (note.system) {
+      if (APPROVAL_NOTE.test(note.body)) {
+        reviews.push({ reviewer, state: 'APPROVED', submittedAt: note.created_at, bodyLength: 0, commentCount: 0 });
+      } else if (CHANGES_REQUESTED_NOTE.test(note.body)) {
+        reviews.push({ reviewer, state: 'CHANGES_REQUESTED', submittedAt: note.created_at, bodyLength: 0, commentCount: 0 });
+      }
+      continue;
+    }
+
+    let review = comments.get(reviewer);
+    if (!review) {
+      review = { reviewer, state: 'COMMENTED', submittedAt: note.created_at, bodyLength: 0, commentCount: 0 };
+      comments.set(reviewer, review);
+      reviews.push(review);
+    }
+    review.bodyLength! += note.body.length;
+    if (note.type === 'DiffNote') {
+      review.commentCount!++;
+    }
+  }
+
+  return reviews.sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+}
+
+function toCIState(status: string | undefined): CIState | null {
+  switch (status) {
+    case undefined:
+      return null;
+    case 'success':
+      return 'success';
+    case 'failed':
+      return 'failure';
+    case 'canceled':
+    case 'skipped':
+      return 'error';
+    default:
+      return 'pending';
+  }
+}
+
+// Squash merges record the squash commit, fast-forward merges neither commit
+function getMergeMethod(mr: GitLabMergeRequest): MergeMethod | null {
+  if (mr.state !== 'merged') return null;
+  if (mr.squash_commit_sha) return 'squash';
+  if (mr.merge_commit_sha) return 'merge';
+  return 'rebase';
+}
+
+async function toPullRequest(request: GitLabRequest, repoPath: string, projectPath: string, mr: GitLabMergeRequest): Promise<PullRequest> {
+  const base = `/projects/${encodeURIComponent(projectPath)}/merge_requests/${mr.iid}`;
+
+  // The list endpoint leaves out the head pipeline
+  const { data: details } = await request<GitLabMergeRequest>(base);
+  const diffs = await fetchPages<GitLabDiff>(request, `${base}/diffs`, {}, MAX_DIFF_PAGES);
+  const notes = await fetchPages<GitLabNote>(request, `${base}/notes`, { sort: 'asc', order_by: 'created_at' }, MAX_NOTE_PAGES);
+  const commits = await fetchPages<GitLabCommit>(request, `${base}/commits`, {}, MAX_COMMIT_PAGES);
+  const { data: issues } = await request<GitLabIssue[]>(`${base}/closes_issues`);
+
+  const files: PRFile[] = diffs.items.map((diff) => ({ path: diff.new_path || diff.old_path, ...countDiffLines(diff.diff) }));
+  const additions = files.reduce((sum, file) => sum + file.additions, 0);
+  const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+
+  const author = mr.author?.username || 'unknown';
+  const reviews = toReviews(notes.items, author);
+
+  let state: PullRequest['state'] = 'open';
+  if (mr.state === 'merged') {
+    state = 'merged';
+  } else if (mr.state === 'closed' || mr.state === 'locked') {
+    state = 'closed';
+  }
+
+  const linkedIssues: LinkedIssue[] = issues.map((issue) => ({
+    repo: `gitlab:${issue.references.full.split('#')[0]}`,
+    number: issue.iid,
+    title: issue.title,
+    url: issue.web_url,
+    author: issue.author?.username || null,
+    createdAt: issue.created_at,
+    closedAt: issue.closed_at,
+    labels: issue.labels,
+  }));
+
+  // The commit list has no line counts
+  const prCommits: PRCommit[] = commits.items.map((commit) => ({
+    oid: commit.id,
+    authorLogin: null,
+    authorName: commit.author_name,
+    authorEmail: commit.author_email,
+    committerLogin: null,
+    committerName: commit.committer_name,
+    committedAt: commit.committed_date,
+    messageHeadline: commit.title,
+    coAuthors: parseCoAuthors(commit.message),
+    additions: 0,
+    deletions: 0,
+  }));
+
+  return {
+    id: getMergeRequestId(repoPath, mr.iid),
+    number: mr.iid,
+    title: mr.title,
+    author,
+    authorAvatar: mr.author?.avatar_url || '',
+    state,
+    createdAt: mr.created_at,
+    mergedAt: mr.merged_at,
+    closedAt: mr.closed_at,
+    updatedAt: mr.updated_at,
+    additions,
+    deletions,
+    changedFiles: files.length,
+    size: calculatePRSize(additions, deletions, files.length),
+    url: mr.web_url,
+    repo: repoPath,
+    isDraft: mr.draft ?? mr.work_in_progress ?? false,
+    baseRef: mr.target_branch,
+    headRef: mr.source_branch,
+    labels: mr.labels,
+    milestone: mr.milestone?.title || null,
+    mergeMethod: getMergeMethod(mr),
+    mergeCommitSha: state === 'merged' ? mr.merge_commit_sha || mr.squash_commit_sha || mr.sha : null,
+    languages: getLanguageBreakdown(files),
+    reviewCount: reviews.length,
+    reviews,
+    requestedReviewers: (mr.reviewers || [])
+      .map((reviewer) => reviewer.username)
+      .filter((reviewer) => !reviews.some((review) => review.reviewer === reviewer)),
+    ciState: toCIState(details.head_pipeline?.status),
+    commits: prCommits,
+    commitCount: prCommits.length,
+    linkedIssues,
+    files,
+    filesTruncated: diffs.truncated,
+    reviewsTruncated: notes.truncated,
+  };
+}
+
+/**
+ * Page through a GitLab project's merge requests, most recently updated
+ * first, as pull requests. The cursor is the next page number.
+ */
+export function createGitLabSource(projectPath: string, config: RepoConfig): PullRequestSource {
+  const request = createGitLabClient(config);
+  const repoPath = `gitlab:${projectPath}`;
+
+  return {
+    async fetchPage(cursor, cutoffDate) {
+      const { data, nextPage } = await request<GitLabMergeRequest[]>(
+        `/projects/${encodeURIComponent(projectPath)}/merge_requests`,
+        {
+          state: 'all',
+          order_by: 'updated_at',
+          sort: 'desc',
+          updated_after: cutoffDate.toISOString(),
+          per_page: MR_PAGE_SIZE,
+          page: cursor || '1',
+        }
+      );
+
+      const pullRequests: PullRequest[] = [];
+      for (const mr of data) {
+        pullRequests.push(await toPullRequest(request, repoPath, projectPath, mr));
+      }
+
+      return { pullRequests, nextCursor: nextPage };
+    },
+  };
+}
+
+export async function validateGitLabProject(projectPath: string, config: RepoConfig): Promise<boolean> {
+  const request = createGitLabClient(config);
+
+  try {
+    await request(`/projects/${encodeURIComponent(projectPath)}`);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,358 @@
+import { randomUUID } from 'crypto';
+import { Octokit } from '@octokit/rest';
+import { createOctokit, getGitHubHost, parseGitHubRepo, DEFAULT_GITHUB_HOST } from './github';
+import { createRateLimiter, GraphQLClient } from './ratelimit';
+import { createInstallationOctokit, getInstallationId } from './githubapp';
+import { getRepoConfig, getSyncHorizon, getDeploymentEnvironments } from './config';
+import {
+  createSyncJob,
+  getSyncJob,
+  getActiveSyncJob,
+  updateSyncJob,
+  failInterruptedSyncJobs,
+  deleteStaleSyncCheckpoints,
+} from './database';
+import {
+  resolveSyncRepos,
+  partitionRecentlySynced,
+  getSyncCutoffDate,
+  syncRepository,
+  isRateLimitError,
+  DEFAULT_CHECKPOINT_TTL_MS,
+} from './sync';
+import { syncReleases } from './releases';
+import { syncDeployments } from './deployments';
+import { syncLocalRepository } from './git';
+import { getProvider, parseRepoRef } from './providers';
+import { SyncJob, SyncEvent, SyncRepoResult } from '@/types';
+
+type SyncEventListener = (event: SyncEvent) => void;
+
+interface RunningJob {
+  events: SyncEvent[];
+  listeners: Set<SyncEventListener>;
+  cancelRequested: boolean;
+  done: Promise<SyncJob>;
+}
+
+// Route handlers are bundled separately, so running jobs are kept on globalThis
+// to be visible from every route (and to survive dev-mode module reloads).
+const globalForJobs = globalThis as unknown as { syncJobs?: Map<string, RunningJob> };
+
+if (!globalForJobs.syncJobs) {
+  globalForJobs.syncJobs = new Map();
+  failInterruptedSyncJobs();
+}
+
+const runningJobs = globalForJobs.syncJobs;
+
+// Repos synced in parallel when the config doesn't set syncConcurrency
+const DEFAULT_SYNC_CONCURRENCY = 4;
+
+export interface SyncJobRequest {
+  repos?: unknown;
+  fullSync?: boolean;
+  resume?: boolean;
+  tokens?: Record<string, string>; // GitHub host -> OAuth token; other hosts use their server token
+}
+
+export type SyncJobRequestResult =
+  | { started: true; job: SyncJob }
+  | { started: false; status: number; body: Record<string, unknown> };
+
+/**
+ * Validate a sync request and start it as a background job. Only one job runs
+ * at a time; a request made while another job is active returns that job.
+ */
+export async function requestSyncJob({ repos: requestedRepos, fullSync = false, resume = false, tokens = {} }: SyncJobRequest): Promise<SyncJobRequestResult> {
+  let repos = await resolveSyncRepos(requestedRepos);
+
+  if (repos.length === 0) {
+    return { started: false, status: 400, body: { error: 'No repositories to sync' } };
+  }
+
+  // For resume mode, filter out repos synced in the last hour
+  let skippedRepos: string[] = [];
+  if (resume) {
+    const { pending, skipped } = partitionRecentlySynced(repos);
+    repos = pending;
+    skippedRepos = skipped;
+
+    if (repos.length === 0) {
+      return {
+        started: false,
+        status: 200,
+        body: {
+          message: `All ${skippedRepos.length} repos were synced within the last hour. Nothing to resume.`,
+          skippedCount: skippedRepos.length,
+        },
+      };
+    }
+  }
+
+  // Checked when the job is created, after the awaits above, so two requests can't both start one
+  const job = createSyncJob(randomUUID(), repos, skippedRepos, fullSync);
+  if (!job) {
+    return {
+      started: false,
+      status: 409,
+      body: { error: 'A sync is already running', job: getActiveSyncJob() },
+    };
+  }
+
+  const entry: RunningJob = {
+    events: [],
+    listeners: new Set(),
+    cancelRequested: false,
+    done: Promise.resolve(job),
+  };
+  runningJobs.set(job.id, entry);
+  entry.done = runSyncJob(job, entry, tokens);
+
+  return { started: true, job };
+}
+
+/**
+ * Subscribe to a job's progress events. Events already emitted are replayed
+ * first so a late subscriber can rebuild the full progress view. Returns an
+ * unsubscribe function, or null if the job is not running in this process.
+ */
+export function subscribeToSyncJob(id: string, listener: SyncEventListener): (() => void) | null {
+  const entry = runningJobs.get(id);
+  if (!entry) return null;
+
+  for (const event of entry.events) {
+    listener(event);
+  }
+  entry.listeners.add(listener);
+
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
+
+/**
+ * Request cancellation of a running job. The job stops after the page it is
+ * currently fetching; PRs fetched so far are kept and the interrupted repo
+ * resumes from its checkpoint on the next sync.
+ */
+export function cancelSyncJob(id: string): SyncJob | null {
+  const entry = runningJobs.get(id);
+  if (entry) {
+    entry.cancelRequested = true;
+  }
+
+  return getSyncJob(id);
+}
+
+export async function waitForSyncJob(id: string): Promise<SyncJob | null> {
+  const entry = runningJobs.get(id);
+  return entry ? entry.done : getSyncJob(id);
+}
+
+async function runSyncJob(job: SyncJob, entry: RunningJob, tokens: Record<string, string>): Promise<SyncJob> {
+  const emit = (event: SyncEvent) => {
+    entry.events.push(event);
+    entry.listeners.forEach((listener) => listener(event));
+  };
+
+  const { id, repos, skippedRepos, fullSync } = job;
+  const config = await getRepoConfig();
+  const concurrency = Math.max(1, config.syncConcurrency ?? DEFAULT_SYNC_CONCURRENCY);
+  const checkpointTtlMs = config.syncCheckpointTtlHours !== undefined
+    ? config.syncCheckpointTtlHours * 60 * 60 * 1000
+    : DEFAULT_CHECKPOINT_TTL_MS;
+
+  // One limiter per credential for the whole job so concurrent repos share its rate limit budget.
+  // Repos an installation of the host's GitHub App can read sync as that installation, others
+  // (including repos left out of an installation on selected repos) with the user's or the
+  // host's server token.
+  const clients = new Map<string, Promise<{ octokit: Octokit; graphql: GraphQLClient }>>();
+  const getClient = async (hostName: string, github: { owner: string; repo: string } | null) => {
+    const host = getGitHubHost(config, hostName);
+    const installationId = github ? await getInstallationId(host, github.owner, github.repo) : null;
+    const key = installationId ? `${hostName}#${installationId}` : hostName;
+
+    let client = clients.get(key);
+    if (!client) {
+      client = (async () => {
+        const octokit = installationId
+          ? await createInstallationOctokit(host, installationId)
+          : createOctokit(tokens[hostName], host);
+        const { graphql } = createRateLimiter(octokit, {
+          reserve: config.rateLimitReserve,
+          onWait: (until, reason) => {
+            console.warn(`Sync job ${id} paused until ${until.toISOString()} (${key}): ${reason}`);
+            emit({ type: 'rate_limited', message: reason, resumeAt: until.toISOString() });
+          },
+        });
+        return { octokit, graphql };
+      })();
+      clients.set(key, client);
+    }
+    return client;
+  };
+
+  const results: SyncRepoResult[] = [];
+  let totalSynced = 0;
+  let completedRepos = 0;
+  let nextIndex = 0;
+  let status: SyncJob['status'] = 'completed';
+  let jobError: string | null = null;
+
+  updateSyncJob(id, { status: 'running', startedAt: new Date().toISOString() });
+  deleteStaleSyncCheckpoints(new Date(Date.now() - checkpointTtlMs));
+
+  emit({
+    type: 'start',
+    jobId: id,
+    totalRepos: repos.length,
+    repos,
+    skippedRepos,
+    skippedCount: skippedRepos.length,
+    concurrency,
+  });
+
+  const syncNext = async (index: number) => {
+    const repoPath = repos[index];
+
+    updateSyncJob(id, { currentRepo: repoPath });
+    emit({
+      type: 'repo_start',
+      repo: repoPath,
+      index,
+      totalRepos: repos.length,
+      progress: Math.round((completedRepos / repos.length) * 100),
+    });
+
+    try {
+      const [owner, repo] = repoPath.split('/');
+      if (!owner || !repo) {
+        throw new Error(`Invalid repository "${repoPath}"`);
+      }
+
+      const horizon = getSyncHorizon(config, repoPath);
+      const cutoffDate = getSyncCutoffDate(repoPath, fullSync, horizon);
+
+      const ref = parseRepoRef(repoPath);
+      const provider = getProvider(ref);
+      // GitHub repos use their host's client; other providers never call it
+      const github = ref.provider === 'github' ? parseGitHubRepo(ref.path) : null;
+      const { octokit, graphql } = await getClient(github?.host ?? DEFAULT_GITHUB_HOST, github);
+      const onProgress = (fetched: number) => emit({ type: 'repo_progress', repo: repoPath, fetched });
+      const isCancelled = () => entry.cancelRequested;
+
+      // Providers without pull requests are local clones, whose commits are read with git
+      const { synced, cancelled, resumed } = provider.createSource
+        ? await syncRepository(provider.createSource(ref.path, config, graphql), repoPath, {
+          cutoffDate,
+          coversFromCutoff: cutoffDate.getTime() === horizon.getTime(),
+          checkpointTtlMs,
+          onProgress,
+          isCancelled,
+        })
+        : await syncLocalRepository(ref.path, repoPath, { fullSync, onProgress, isCancelled });
+
+      totalSynced += synced;
+      results.push({ repo: repoPath, synced });
+
+      if (cancelled) {
+        return;
+      }
+
+      // Releases and deployments are synced over the same window as PRs; failures don't fail the repo.
+      // They come from GitHub's APIs, so other providers only sync PRs.
+      const followUps: Array<[string, () => Promise<unknown>]> = ref.provider !== 'github' ? [] : [
+        ['releases', () => syncReleases(graphql, octokit, repoPath, horizon)],
+        ['deployments', () => syncDeployments(octokit, repoPath, horizon, getDeploymentEnvironments(config))],
+      ];
+      for (const [name, syncFollowUp] of followUps) {
+        try {
+          await syncFollowUp();
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          if (isRateLimitError(message)) {
+            throw error;
+          }
+          console.warn(`Could not sync ${name} for ${repoPath}:`, message);
+        }
+      }
+
+      completedRepos++;
+      const progress = Math.round((completedRepos / repos.length) * 100);
+      updateSyncJob(id, { completedRepos, totalSynced, progress, results });
+      emit({
+        type: 'repo_complete',
+        repo: repoPath,
+        synced,
+        resumed,
+        index,
+        totalRepos: repos.length,
+        progress,
+        totalSynced,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Error syncing ${repoPath}:`, message);
+      results.push({ repo: repoPath, synced: 0, error: message });
+
+      completedRepos++;
+      const progress = Math.round((completedRepos / repos.length) * 100);
+      updateSyncJob(id, { completedRepos, progress, results });
+      emit({
+        type: 'repo_error',
+        repo: repoPath,
+        error: message,
+        rateLimited: isRateLimitError(message),
+        index,
+        totalRepos: repos.length,
+        progress,
+      });
+    }
+  };
+
+  // Each worker takes the next unclaimed repo until none are left or the job is cancelled
+  const worker = async () => {
+    while (nextIndex < repos.length && !entry.cancelRequested) {
+      await syncNext(nextIndex++);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, repos.length) }, worker));
+
+    if (entry.cancelRequested) {
+      status = 'cancelled';
+    }
+  } catch (error) {
+    status = 'failed';
+    jobError = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Sync job ${id} failed:`, error);
+  }
+
+  if (status === 'cancelled') {
+    emit({ type: 'cancelled', jobId: id });
+  }
+
+  updateSyncJob(id, {
+    status,
+    error: jobError,
+    currentRepo: null,
+    totalSynced,
+    results,
+    finishedAt: new Date().toISOString(),
+  });
+
+  emit({
+    type: 'complete',
+    jobId: id,
+    status,
+    results,
+    totalSynced,
+    totalRepos: repos.length,
+  });
+
+  runningJobs.delete(id);
+
+  return getSyncJob(id)!;
+}
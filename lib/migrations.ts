@@ -0,0 +1,555 @@
+import Database from 'better-sqlite3';
+import { calculatePRSize } from './analyzer';
+import { SchemaMigration, SchemaStatus } from '@/types';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+// Databases created before schema versioning may already have the column
+function addColumn(db: Database.Database, table: string, column: string, definition: string): void {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Schema migrations, applied in order. Each one runs in a transaction together
+ * with its schema_version row, so a failure leaves the database at the
+ * previous version. Never edit a released migration; add a new one instead.
+ * The early migrations use IF NOT EXISTS and column checks because they also
+ * bring databases created before versioning up to date.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Create pull request and sync status tables',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pull_requests (
+          id INTEGER PRIMARY KEY,
+          number INTEGER NOT NULL,
+          repo TEXT NOT NULL,
+          title TEXT NOT NULL,
+          author TEXT NOT NULL,
+          author_avatar TEXT,
+          state TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          merged_at TEXT,
+          closed_at TEXT,
+          additions INTEGER NOT NULL,
+          deletions INTEGER NOT NULL,
+          changed_files INTEGER NOT NULL,
+          size TEXT NOT NULL,
+          url TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          UNIQUE(repo, number)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_pr_repo ON pull_requests(repo);
+        CREATE INDEX IF NOT EXISTS idx_pr_author ON pull_requests(author);
+        CREATE INDEX IF NOT EXISTS idx_pr_created_at ON pull_requests(created_at);
+        CREATE INDEX IF NOT EXISTS idx_pr_repo_created ON pull_requests(repo, created_at);
+
+        CREATE TABLE IF NOT EXISTS sync_status (
+          repo TEXT PRIMARY KEY,
+          last_synced_at TEXT NOT NULL,
+          pr_count INTEGER DEFAULT 0
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'Add languages and reviews to pull requests',
+    up: (db) => {
+      addColumn(db, 'pull_requests', 'languages', 'TEXT');
+      addColumn(db, 'pull_requests', 'review_count', 'INTEGER DEFAULT 0');
+      // Superseded by the pr_reviews table in migration 10
+      addColumn(db, 'pull_requests', 'reviews', 'TEXT');
+    },
+  },
+  {
+    version: 3,
+    name: 'Add sync horizon coverage',
+    up: (db) => {
+      // Earliest date from which the cached PRs for a repo are complete
+      addColumn(db, 'sync_status', 'covered_since', 'TEXT');
+    },
+  },
+  {
+    version: 4,
+    name: 'Add truncation flags to pull requests',
+    up: (db) => {
+      addColumn(db, 'pull_requests', 'files_truncated', 'INTEGER DEFAULT 0');
+      addColumn(db, 'pull_requests', 'reviews_truncated', 'INTEGER DEFAULT 0');
+    },
+  },
+  {
+    version: 5,
+    name: 'Create sync jobs and checkpoints',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_jobs (
+          id TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          full_sync INTEGER NOT NULL DEFAULT 0,
+          repos TEXT NOT NULL,
+          skipped_repos TEXT,
+          completed_repos INTEGER NOT NULL DEFAULT 0,
+          total_synced INTEGER NOT NULL DEFAULT 0,
+          current_repo TEXT,
+          progress INTEGER NOT NULL DEFAULT 0,
+          results TEXT,
+          error TEXT,
+          created_at TEXT NOT NULL,
+          started_at TEXT,
+          finished_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_sync_jobs_status ON sync_jobs(status);
+
+        CREATE TABLE IF NOT EXISTS sync_checkpoints (
+          repo TEXT PRIMARY KEY,
+          cursor TEXT,
+          cutoff_date TEXT NOT NULL,
+          covers_from_cutoff INTEGER NOT NULL DEFAULT 0,
+          fetched_count INTEGER NOT NULL DEFAULT 0,
+          started_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'Create webhook deliveries',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id TEXT PRIMARY KEY,
+          event TEXT NOT NULL,
+          action TEXT,
+          repo TEXT,
+          status TEXT NOT NULL,
+          error TEXT,
+          payload TEXT NOT NULL,
+          received_at TEXT NOT NULL,
+          processed_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'Create scheduled sync runs',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS scheduled_sync_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          schedule TEXT NOT NULL,
+          status TEXT NOT NULL,
+          job_id TEXT,
+          error TEXT,
+          scheduled_for TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          finished_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_scheduled_sync_runs_schedule ON scheduled_sync_runs(schedule, started_at);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'Store GitHub updatedAt and index analysis dates',
+    up: (db) => {
+      // updated_at is when the row was written locally; this is GitHub's updatedAt
+      addColumn(db, 'pull_requests', 'github_updated_at', 'TEXT');
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_pr_repo_merged ON pull_requests(repo, merged_at);
+        CREATE INDEX IF NOT EXISTS idx_pr_repo_closed ON pull_requests(repo, closed_at);
+        CREATE INDEX IF NOT EXISTS idx_pr_repo_github_updated ON pull_requests(repo, github_updated_at);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'Recompute PR sizes with the current size model',
+    up: (db) => {
+      // PRs saved without line stats (changed_files = 0) keep their placeholder size
+      const rows = db.prepare(
+        'SELECT id, additions, deletions, changed_files, size FROM pull_requests WHERE changed_files > 0'
+      ).all() as Array<{ id: number; additions: number; deletions: number; changed_files: number; size: string }>;
+      const update = db.prepare('UPDATE pull_requests SET size = ? WHERE id = ?');
+
+      for (const row of rows) {
+        const size = calculatePRSize(row.additions, row.deletions, row.changed_files);
+        if (size !== row.size) {
+          update.run(size, row.id);
+        }
+      }
+    },
+  },
+  {
+    version: 10,
+    name: 'Move reviews into the pr_reviews table',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pr_reviews (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pr_id INTEGER NOT NULL,
+          reviewer TEXT NOT NULL,
+          state TEXT NOT NULL,
+          submitted_at TEXT,
+          body_length INTEGER NOT NULL DEFAULT 0,
+          comment_count INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_pr_reviews_pr ON pr_reviews(pr_id);
+        CREATE INDEX IF NOT EXISTS idx_pr_reviews_reviewer ON pr_reviews(reviewer);
+        CREATE INDEX IF NOT EXISTS idx_pr_reviews_submitted ON pr_reviews(submitted_at);
+      `);
+
+      if (hasColumn(db, 'pull_requests', 'reviews')) {
+        // Body length and comment counts weren't kept in the JSON; they fill in on the next sync
+        db.exec(`
+          INSERT INTO pr_reviews (pr_id, reviewer, state, submitted_at)
+          SELECT p.id, json_extract(r.value, '$.reviewer'), json_extract(r.value, '$.state'),
+                 NULLIF(json_extract(r.value, '$.submittedAt'), '')
+          FROM pull_requests p, json_each(p.reviews) r
+          WHERE p.reviews IS NOT NULL AND json_extract(r.value, '$.reviewer') IS NOT NULL;
+
+          ALTER TABLE pull_requests DROP COLUMN reviews;
+        `);
+      }
+    },
+  },
+  {
+    version: 11,
+    name: 'Create pr_files table',
+    up: (db) => {
+      // Filled in as PRs are synced; PRs cached earlier have no file rows until they are re-synced
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pr_files (
+          pr_id INTEGER NOT NULL,
+          path TEXT NOT NULL,
+          additions INTEGER NOT NULL DEFAULT 0,
+          deletions INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (pr_id, path)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_pr_files_path ON pr_files(path);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'Add labels, draft status, branches, milestone and merge method',
+    up: (db) => {
+      addColumn(db, 'pull_requests', 'is_draft', 'INTEGER NOT NULL DEFAULT 0');
+      addColumn(db, 'pull_requests', 'base_ref', 'TEXT');
+      addColumn(db, 'pull_requests', 'head_ref', 'TEXT');
+      addColumn(db, 'pull_requests', 'labels', 'TEXT');
+      addColumn(db, 'pull_requests', 'milestone', 'TEXT');
+      addColumn(db, 'pull_requests', 'merge_method', 'TEXT');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_pr_repo_base_ref ON pull_requests(repo, base_ref)');
+    },
+  },
+  {
+    version: 13,
+    name: 'Create pr_review_requests table',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pr_review_requests (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pr_id INTEGER NOT NULL,
+          reviewer TEXT NOT NULL,
+          is_team INTEGER NOT NULL DEFAULT 0,
+          requested_at TEXT NOT NULL,
+          removed_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_pr_review_requests_pr ON pr_review_requests(pr_id);
+        CREATE INDEX IF NOT EXISTS idx_pr_review_requests_reviewer ON pr_review_requests(reviewer);
+      `);
+      addColumn(db, 'pull_requests', 'requested_reviewers', 'TEXT');
+    },
+  },
+  {
+    version: 14,
+    name: 'Add CI status and pr_checks table',
+    up: (db) => {
+      addColumn(db, 'pull_requests', 'ci_state', 'TEXT');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pr_checks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          pr_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          conclusion TEXT,
+          started_at TEXT,
+          completed_at TEXT,
+          duration_seconds INTEGER
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_pr_checks_pr ON pr_checks(pr_id);
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: 'Create pr_commits table',
+    up: (db) => {
+      addColumn(db, 'pull_requests', 'commit_count', 'INTEGER');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS pr_commits (
+          pr_id INTEGER NOT NULL,
+          oid TEXT NOT NULL,
+          author_login TEXT,
+          author_name TEXT NOT NULL,
+          author_email TEXT NOT NULL,
+          committer_login TEXT,
+          committer_name TEXT NOT NULL,
+          committed_at TEXT NOT NULL,
+          message_headline TEXT NOT NULL,
+          co_authors TEXT NOT NULL DEFAULT '[]',
+          additions INTEGER NOT NULL DEFAULT 0,
+          deletions INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (pr_id, oid)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_pr_commits_author_email ON pr_commits(author_email);
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: 'Create issues and pr_issues tables',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS issues (
+          repo TEXT NOT NULL,
+          number INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          url TEXT NOT NULL,
+          author TEXT,
+          created_at TEXT NOT NULL,
+          closed_at TEXT,
+          labels TEXT NOT NULL DEFAULT '[]',
+          PRIMARY KEY (repo, number)
+        );
+
+        CREATE TABLE IF NOT EXISTS pr_issues (
+          pr_id INTEGER NOT NULL,
+          issue_repo TEXT NOT NULL,
+          issue_number INTEGER NOT NULL,
+          PRIMARY KEY (pr_id, issue_repo, issue_number)
+        );
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: 'Create releases and release_commits tables',
+    up: (db) => {
+      addColumn(db, 'pull_requests', 'merge_commit_sha', 'TEXT');
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS releases (
+          repo TEXT NOT NULL,
+          tag_name TEXT NOT NULL,
+          name TEXT,
+          commit_sha TEXT NOT NULL,
+          published_at TEXT NOT NULL,
+          is_prerelease INTEGER NOT NULL DEFAULT 0,
+          has_release INTEGER NOT NULL DEFAULT 1,
+          commits_mapped INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (repo, tag_name)
+        );
+
+        CREATE TABLE IF NOT EXISTS release_commits (
+          repo TEXT NOT NULL,
+          tag_name TEXT NOT NULL,
+          sha TEXT NOT NULL,
+          PRIMARY KEY (repo, tag_name, sha)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_release_commits_sha ON release_commits(repo, sha);
+        CREATE INDEX IF NOT EXISTS idx_pr_merge_commit ON pull_requests(repo, merge_commit_sha);
+      `);
+    },
+  },
+  {
+    version: 18,
+    name: 'Create deployment tables',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS deployments (
+          repo TEXT NOT NULL,
+          id INTEGER NOT NULL,
+          environment TEXT NOT NULL,
+          sha TEXT NOT NULL,
+          ref TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          state TEXT NOT NULL DEFAULT 'pending',
+          finished_at TEXT,
+          commits_mapped INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (repo, id)
+        );
+
+        CREATE TABLE IF NOT EXISTS deployment_statuses (
+          repo TEXT NOT NULL,
+          deployment_id INTEGER NOT NULL,
+          id INTEGER NOT NULL,
+          state TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (repo, id)
+        );
+
+        CREATE TABLE IF NOT EXISTS deployment_commits (
+          repo TEXT NOT NULL,
+          deployment_id INTEGER NOT NULL,
+          sha TEXT NOT NULL,
+          PRIMARY KEY (repo, deployment_id, sha)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_deployments_created ON deployments(repo, created_at);
+        CREATE INDEX IF NOT EXISTS idx_deployment_statuses_deployment ON deployment_statuses(repo, deployment_id);
+        CREATE INDEX IF NOT EXISTS idx_deployment_commits_sha ON deployment_commits(repo, sha);
+      `);
+    },
+  },
+  {
+    version: 19,
+    name: 'Create local commit tables',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS local_commits (
+          repo TEXT NOT NULL,
+          sha TEXT NOT NULL,
+          author_name TEXT NOT NULL,
+          author_email TEXT NOT NULL,
+          authored_at TEXT NOT NULL,
+          committed_at TEXT NOT NULL,
+          message_headline TEXT NOT NULL,
+          additions INTEGER NOT NULL DEFAULT 0,
+          deletions INTEGER NOT NULL DEFAULT 0,
+          ingested_at TEXT NOT NULL,
+          PRIMARY KEY (repo, sha)
+        );
+
+        CREATE TABLE IF NOT EXISTS local_commit_files (
+          repo TEXT NOT NULL,
+          sha TEXT NOT NULL,
+          path TEXT NOT NULL,
+          additions INTEGER NOT NULL DEFAULT 0,
+          deletions INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (repo, sha, path)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_local_commits_authored ON local_commits(repo, authored_at);
+      `);
+    },
+  },
+  {
+    version: 20,
+    name: 'Create sessions table',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY, -- SHA-256 of the session cookie, never the cookie itself
+          created_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          revoked_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS session_accounts (
+          session_id TEXT NOT NULL,
+          host TEXT NOT NULL,
+          login TEXT NOT NULL,
+          name TEXT,
+          avatar_url TEXT NOT NULL,
+          encrypted_token TEXT NOT NULL,
+          signed_in_at TEXT NOT NULL,
+          PRIMARY KEY (session_id, host)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions(expires_at);
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function ensureSchemaVersionTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+}
+
+function getAppliedMigrations(db: Database.Database): SchemaMigration[] {
+  ensureSchemaVersionTable(db);
+  const rows = db.prepare('SELECT * FROM schema_version ORDER BY version').all() as any[];
+  return rows.map((row) => ({ version: row.version, name: row.name, appliedAt: row.applied_at }));
+}
+
+function getCurrentVersion(applied: SchemaMigration[]): number {
+  return applied.length > 0 ? applied[applied.length - 1].version : 0;
+}
+
+/**
+ * Apply every migration newer than the database's schema version. Throws if a
+ * migration fails; that migration is rolled back and the rest are not run.
+ */
+export function runMigrations(db: Database.Database): SchemaMigration[] {
+  const currentVersion = getCurrentVersion(getAppliedMigrations(db));
+  const record = db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)');
+  const applied: SchemaMigration[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= currentVersion) continue;
+
+    const appliedAt = new Date().toISOString();
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        record.run(migration.version, migration.name, appliedAt);
+      })();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${message}`);
+    }
+
+    console.log(`Applied database migration ${migration.version}: ${migration.name}`);
+    applied.push({ version: migration.version, name: migration.name, appliedAt });
+  }
+
+  return applied;
+}
+
+export function getMigrationStatus(db: Database.Database): Omit<SchemaStatus, 'error'> {
+  const applied = getAppliedMigrations(db);
+  const currentVersion = getCurrentVersion(applied);
+
+  return {
+    currentVersion,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    applied,
+    pending: MIGRATIONS
+      .filter((migration) => migration.version > currentVersion)
+      .map(({ version, name }) => ({ version, name })),
+  };
+}
@@ -0,0 +1,58 @@
+import { getRepoConfig } from './config';
+import { DateField } from '@/types';
+
+export const DATE_FIELDS: DateField[] = ['created', 'merged', 'closed', 'updated'];
+
+export interface AnalysisQuery {
+  since: Date;
+  until: Date;
+  repos: string[];
+  dateField: DateField;
+}
+
+/**
+ * Parse the date range, repos and date dimension shared by the analysis
+ * endpoints. Returns an error message for invalid input.
+ */
+export async function parseAnalysisQuery(searchParams: URLSearchParams): Promise<AnalysisQuery | { error: string }> {
+  // Get date range from query params
+  const sinceParam = searchParams.get('since');
+  const untilParam = searchParams.get('until');
+  const reposParam = searchParams.get('repos');
+  const dateField = (searchParams.get('dateField') || 'created') as DateField;
+
+  if (!DATE_FIELDS.includes(dateField)) {
+    return { error: `Invalid dateField. Use one of: ${DATE_FIELDS.join(', ')}` };
+  }
+
+  // Default to last 30 days
+  const now = new Date();
+  const defaultSince = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+  const since = sinceParam ? new Date(sinceParam) : defaultSince;
+  const until = untilParam ? new Date(untilParam) : now;
+
+  // Validate dates
+  if (isNaN(since.getTime()) || isNaN(until.getTime())) {
+    return { error: 'Invalid date format. Use ISO 8601 format.' };
+  }
+
+  if (since > until) {
+    return { error: 'Start date must be before end date' };
+  }
+
+  // Get repos from query param or config
+  let repos: string[];
+  if (reposParam) {
+    repos = reposParam.split(',').filter(r => r.trim());
+  } else {
+    const config = await getRepoConfig();
+    repos = config.repos;
+  }
+
+  if (repos.length === 0) {
+    return { error: 'No repositories configured. Add repositories first.' };
+  }
+
+  return { since, until, repos, dateField };
+}
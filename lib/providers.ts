@@ -0,0 +1,73 @@
+import { GraphQLClient } from './ratelimit';
+import { getGitHubHost, parseGitHubRepo, validateRepository } from './github';
+import { createGitHubSource } from './sync';
+import { createGitLabSource, validateGitLabProject } from './gitlab';
+import { validateLocalRepository } from './git';
+import { PullRequest, RepoConfig } from '@/types';
+
+export type ProviderName = 'github' | 'gitlab' | 'local';
+
+// A configured repo, e.g. "owner/repo" on GitHub ("host/owner/repo" on GitHub
+// Enterprise Server), "gitlab:group/project" or "local:/path/to/clone"
+export interface RepoRef {
+  provider: ProviderName;
+  path: string; // Repo path on the provider, without the prefix
+}
+
+export interface PullRequestPage {
+  pullRequests: PullRequest[];
+  nextCursor: string | null; // Null after the last page or once the cutoff date was reached
+}
+
+// Where a sync reads a repo's PRs from, most recently updated first
+export interface PullRequestSource {
+  fetchPage(cursor: string | null, cutoffDate: Date): Promise<PullRequestPage>;
+}
+
+export interface RepoProvider {
+  // Whether the repo exists and can be read with the configured credentials
+  // or the user's OAuth tokens (GitHub host -> token)
+  validateRepository(path: string, config: RepoConfig, tokens?: Record<string, string>): Promise<boolean>;
+  // Missing for local clones, which have commits but no pull requests
+  createSource?(path: string, config: RepoConfig, graphql: GraphQLClient): PullRequestSource;
+}
+
+const PROVIDERS: Record<ProviderName, RepoProvider> = {
+  github: {
+    validateRepository: (path, config, tokens = {}) => {
+      const { host, owner, repo } = parseGitHubRepo(path);
+      return validateRepository(owner, repo, tokens[host], getGitHubHost(config, host));
+    },
+    createSource: (path, _config, graphql) => createGitHubSource(graphql, path),
+  },
+  gitlab: {
+    validateRepository: (path, config) => validateGitLabProject(path, config),
+    createSource: (path, config) => createGitLabSource(path, config),
+  },
+  local: {
+    validateRepository: (path) => validateLocalRepository(path),
+  },
+};
+
+const PROVIDER_PREFIX = /^([a-z]+):(.+)$/;
+
+/**
+ * Split a configured repo into its provider and path. Repos without a
+ * provider prefix are on GitHub.
+ */
+export function parseRepoRef(repo: string): RepoRef {
+  const match = repo.match(PROVIDER_PREFIX);
+  if (!match) {
+    return { provider: 'github', path: repo };
+  }
+
+  const provider = match[1] as ProviderName;
+  if (!(provider in PROVIDERS) || provider === 'github') {
+    throw new Error(`Unknown repository provider "${match[1]}"`);
+  }
+  return { provider, path: match[2] };
+}
+
+export function getProvider(ref: RepoRef): RepoProvider {
+  return PROVIDERS[ref.provider];
+}
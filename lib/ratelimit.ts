@@ -0,0 +1,182 @@
+import { Octokit } from '@octokit/rest';
+
+// GraphQL rate limit info, requested as `rateLimit { cost remaining resetAt }` on every query
+export interface GraphQLRateLimit {
+  cost: number;
+  remaining: number;
+  resetAt: string;
+}
+
+export type GraphQLClient = <T>(query: string, variables: Record<string, unknown>) => Promise<T>;
+
+export interface RateLimiterOptions {
+  // Points to keep in reserve; requests pause until the reset time once remaining drops below this
+  reserve?: number;
+  maxRetries?: number;
+  onWait?: (until: Date, reason: string) => void;
+}
+
+export interface RateLimiter {
+  graphql: GraphQLClient;
+  getStatus: () => { remaining: number | null; resetAt: Date | null };
+}
+
+const DEFAULT_RESERVE = 200;
+const DEFAULT_MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 60 * 1000; // GitHub asks for at least a minute after a secondary rate limit
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+// Response headers of an Octokit request error, or of a GraphQL error's response
+function getHeader(error: unknown, name: string): string | undefined {
+  if (!isObject(error)) return undefined;
+
+  const headers = isObject(error.response) && isObject(error.response.headers) ? error.response.headers : error.headers;
+  if (!isObject(headers) || headers[name] === undefined) return undefined;
+
+  return String(headers[name]);
+}
+
+/**
+ * Work out how long to wait before retrying a failed request, or null if the
+ * error is not rate-limit related and should be thrown as is.
+ */
+function getRetryDelay(error: unknown, attempt: number, resetAt: Date | null): { delayMs: number; reason: string } | null {
+  const message = error instanceof Error ? error.message : '';
+  const backoff = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+
+  // Secondary rate limit: honour retry-after, backing off further on repeated hits
+  const retryAfter = getHeader(error, 'retry-after');
+  if (retryAfter !== undefined) {
+    const seconds = parseInt(retryAfter, 10) || 0;
+    return { delayMs: Math.max(seconds * 1000, backoff), reason: 'secondary rate limit' };
+  }
+
+  if (message.toLowerCase().includes('secondary rate limit')) {
+    return { delayMs: backoff, reason: 'secondary rate limit' };
+  }
+
+  // Primary rate limit exhausted: wait for the reset time
+  const remainingHeader = getHeader(error, 'x-ratelimit-remaining');
+  const resetHeader = getHeader(error, 'x-ratelimit-reset');
+  if (remainingHeader === '0' && resetHeader) {
+    return { delayMs: Math.max(parseInt(resetHeader, 10) * 1000 - Date.now(), 0) + 1000, reason: 'rate limit exhausted' };
+  }
+
+  const errors = isObject(error) ? error.errors : undefined;
+  const isGraphQLRateLimited = Array.isArray(errors) && errors.some((e) => isObject(e) && e.type === 'RATE_LIMITED');
+  if (isGraphQLRateLimited || message.includes('API rate limit exceeded')) {
+    const untilReset = resetAt ? resetAt.getTime() - Date.now() + 1000 : 0;
+    return { delayMs: untilReset > 0 ? untilReset : backoff, reason: 'rate limit exhausted' };
+  }
+
+  return null;
+}
+
+/**
+ * Wrap an Octokit client's GraphQL calls so concurrent syncs share one view of
+ * the rate limit. Every response's `rateLimit` field updates the budget; when
+ * it falls below the reserve, requests pause until the reset time instead of
+ * failing. Rate-limit errors are retried with exponential backoff.
+ *
+ * The client's REST requests are hooked too: they wait out the same pauses,
+ * and their rate-limit errors pause and retry the same way. REST has its own
+ * budget, so it doesn't count against the GraphQL reserve.
+ */
+export function createRateLimiter(octokit: Octokit, options: RateLimiterOptions = {}): RateLimiter {
+  const reserve = options.reserve ?? DEFAULT_RESERVE;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  let remaining: number | null = null;
+  let resetAt: Date | null = null;
+  // Shared pause so concurrent requests wait together rather than each hitting the limit
+  let pause: Promise<void> | null = null;
+  let pauseUntil = 0;
+
+  // Join the current pause, or extend it when this wait ends later; requests
+  // woken by the shorter pause find the longer one in throttle() and keep waiting
+  const waitFor = (delayMs: number, reason: string): Promise<void> => {
+    const until = Date.now() + delayMs;
+    if (!pause || until > pauseUntil) {
+      pauseUntil = until;
+      options.onWait?.(new Date(until), reason);
+      const current: Promise<void> = sleep(delayMs).then(() => {
+        if (pause === current) {
+          pause = null;
+        }
+      });
+      pause = current;
+    }
+    return pause;
+  };
+
+  const throttle = async () => {
+    while (pause) {
+      await pause;
+    }
+
+    if (remaining !== null && remaining <= reserve && resetAt && resetAt.getTime() > Date.now()) {
+      await waitFor(resetAt.getTime() - Date.now() + 1000, `${remaining} points left, keeping ${reserve} in reserve`);
+      remaining = null;
+    }
+  };
+
+  const record = (rateLimit: GraphQLRateLimit | undefined) => {
+    if (!rateLimit) return;
+    remaining = rateLimit.remaining;
+    resetAt = new Date(rateLimit.resetAt);
+  };
+
+  // octokit.graphql goes through the request hook as well, but is retried by graphql() below
+  octokit.hook.wrap('request', async (request, requestOptions) => {
+    if (/\/graphql$/.test(requestOptions.url)) {
+      return request(requestOptions);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      while (pause) {
+        await pause;
+      }
+
+      try {
+        return await request(requestOptions);
+      } catch (error) {
+        const retry = getRetryDelay(error, attempt, null);
+        if (!retry || attempt >= maxRetries) {
+          throw error;
+        }
+        await waitFor(retry.delayMs, retry.reason);
+      }
+    }
+  });
+
+  const graphql: GraphQLClient = async <T>(query: string, variables: Record<string, unknown>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await throttle();
+
+      try {
+        const response = await octokit.graphql<T & { rateLimit?: GraphQLRateLimit }>(query, variables);
+        record(response.rateLimit);
+        return response;
+      } catch (error) {
+        const retry = getRetryDelay(error, attempt, resetAt);
+        if (!retry || attempt >= maxRetries) {
+          throw error;
+        }
+        await waitFor(retry.delayMs, retry.reason);
+      }
+    }
+  };
+
+  return {
+    graphql,
+    getStatus: () => ({ remaining, resetAt }),
+  };
+}
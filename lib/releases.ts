@@ -0,0 +1,240 @@
+import { Octokit } from '@octokit/rest';
+import { GraphQLClient } from './ratelimit';
+import { isRateLimitError } from './sync';
+import { parseGitHubRepo } from './github';
+import { getReleasesToMap, saveReleases, saveReleaseCommits } from './database';
+import { Release } from '@/types';
+
+const TAG_TARGET_FIELDS = `
+  ... on Commit {
+    oid
+    committedDate
+  }
+  ... on Tag {
+    tagger {
+      date
+    }
+    target {
+      ... on Commit {
+        oid
+        committedDate
+      }
+    }
+  }
+`;
+
+const RELEASES_QUERY = `
+  query($owner: String!, $repo: String!, $cursor: String) {
+    rateLimit {
+      cost
+      remaining
+      resetAt
+    }
+    repository(owner: $owner, name: $repo) {
+      releases(first: 100, after: $cursor, orderBy: { field: CREATED_AT, direction: DESC }) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          tagName
+          name
+          isDraft
+          isPrerelease
+          createdAt
+          publishedAt
+          tagCommit {
+            oid
+          }
+        }
+      }
+    }
+  }
+`;
+
+const TAGS_QUERY = `
+  query($owner: String!, $repo: String!, $cursor: String) {
+    rateLimit {
+      cost
+      remaining
+      resetAt
+    }
+    repository(owner: $owner, name: $repo) {
+      refs(refPrefix: "refs/tags/", first: 100, after: $cursor, orderBy: { field: TAG_COMMIT_DATE, direction: DESC }) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          name
+          target {
+            ${TAG_TARGET_FIELDS}
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface GraphQLReleaseNode {
+  tagName: string;
+  name: string | null;
+  isDraft: boolean;
+  isPrerelease: boolean;
+  createdAt: string;
+  publishedAt: string | null;
+  tagCommit: { oid: string } | null;
+}
+
+interface GraphQLTagCommit {
+  oid?: string;
+  committedDate?: string;
+}
+
+interface GraphQLTagNode {
+  name: string;
+  target: GraphQLTagCommit & {
+    tagger?: { date: string } | null;
+    target?: GraphQLTagCommit;
+  };
+}
+
+interface GraphQLPage<T> {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: T[];
+}
+
+// Commits listed per compare page, and the most pages fetched between two releases
+const COMPARE_PAGE_SIZE = 100;
+const MAX_COMPARE_PAGES = 50;
+
+/**
+ * Fetch the repo's releases and tags back to the cutoff date. Tags without a
+ * GitHub release count as releases dated by the tag (or its commit).
+ */
+async function fetchReleases(graphql: GraphQLClient, repoPath: string, cutoffDate: Date): Promise<Release[]> {
+  const { owner, repo } = parseGitHubRepo(repoPath);
+  const releases = new Map<string, Release>();
+
+  let cursor: string | null = null;
+  let done = false;
+  while (!done) {
+    const response: { repository: { releases: GraphQLPage<GraphQLReleaseNode> } } = await graphql(RELEASES_QUERY, { owner, repo, cursor });
+    const { pageInfo, nodes } = response.repository.releases;
+
+    for (const release of nodes) {
+      if (new Date(release.createdAt) < cutoffDate) {
+        done = true;
+        break;
+      }
+      if (release.isDraft || !release.tagCommit) continue;
+
+      releases.set(release.tagName, {
+        repo: repoPath,
+        tagName: release.tagName,
+        name: release.name,
+        commitSha: release.tagCommit.oid,
+        publishedAt: release.publishedAt || release.createdAt,
+        isPrerelease: release.isPrerelease,
+        hasRelease: true,
+      });
+    }
+
+    done = done || !pageInfo.hasNextPage;
+    cursor = pageInfo.endCursor;
+  }
+
+  cursor = null;
+  done = false;
+  while (!done) {
+    const response: { repository: { refs: GraphQLPage<GraphQLTagNode> } } = await graphql(TAGS_QUERY, { owner, repo, cursor });
+    const { pageInfo, nodes } = response.repository.refs;
+
+    for (const tag of nodes) {
+      // Annotated tags point at a tag object, which points at the commit
+      const commit = tag.target.oid && tag.target.committedDate ? tag.target : tag.target.target;
+      if (!commit?.oid || !commit.committedDate) continue;
+
+      const taggedAt = tag.target.tagger?.date || commit.committedDate;
+      if (new Date(commit.committedDate) < cutoffDate) {
+        done = true;
+        break;
+      }
+      if (releases.has(tag.name)) continue;
+
+      releases.set(tag.name, {
+        repo: repoPath,
+        tagName: tag.name,
+        name: null,
+        commitSha: commit.oid,
+        publishedAt: taggedAt,
+        isPrerelease: false,
+        hasRelease: false,
+      });
+    }
+
+    done = done || !pageInfo.hasNextPage;
+    cursor = pageInfo.endCursor;
+  }
+
+  return Array.from(releases.values());
+}
+
+/**
+ * List the commits reachable from head but not from base.
+ */
+export async function fetchCommitsBetween(octokit: Octokit, repoPath: string, base: string, head: string): Promise<string[]> {
+  const { owner, repo } = parseGitHubRepo(repoPath);
+  const shas: string[] = [];
+
+  for (let page = 1; page <= MAX_COMPARE_PAGES; page++) {
+    const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${base}...${head}`,
+      per_page: COMPARE_PAGE_SIZE,
+      page,
+    });
+    shas.push(...data.commits.map((commit) => commit.sha));
+    if (data.commits.length < COMPARE_PAGE_SIZE) break;
+  }
+
+  return shas;
+}
+
+/**
+ * Sync a repo's releases and record which commits each one shipped: the
+ * commits its tag contains that the previous release's tag didn't. A merged
+ * PR is released by the earliest release that shipped its merge commit.
+ * Releases are only compared once, and the oldest release in the window has
+ * no predecessor to compare against, so it ships nothing.
+ */
+export async function syncReleases(
+  graphql: GraphQLClient,
+  octokit: Octokit,
+  repoPath: string,
+  cutoffDate: Date
+): Promise<{ releases: number; mapped: number }> {
+  const releases = await fetchReleases(graphql, repoPath, cutoffDate);
+  saveReleases(releases);
+
+  let mapped = 0;
+  for (const { release, previous } of getReleasesToMap(repoPath)) {
+    try {
+      const shas = previous && previous.commitSha !== release.commitSha
+        ? await fetchCommitsBetween(octokit, repoPath, previous.commitSha, release.commitSha)
+        : [];
+      saveReleaseCommits(repoPath, release.tagName, shas);
+      mapped++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      // Rate limits stop the sync; other failures leave the release to be compared next time
+      if (isRateLimitError(message)) {
+        throw error;
+      }
+      console.warn(`Could not compare ${repoPath} release ${release.tagName}:`, message);
+    }
+  }
+
+  return { releases: releases.length, mapped };
+}
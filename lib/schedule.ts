@@ -0,0 +1,172 @@
+import { getRepoConfig } from './config';
+import { getNextCronDate, isValidCron } from './cron';
+import { recordScheduledSyncRun, getLastScheduledSyncRun } from './database';
+import { requestSyncJob, waitForSyncJob } from './jobs';
+import { RepoConfig, ScheduledSyncRunStatus, SyncScheduleStatus } from '@/types';
+
+// Name of the schedule set by `syncSchedule`, covering repos outside any group
+export const DEFAULT_SCHEDULE_NAME = 'default';
+
+const TICK_INTERVAL_MS = 60 * 1000;
+
+interface SyncSchedule {
+  name: string;
+  cron: string;
+  repos: string[];
+}
+
+interface SchedulerState {
+  nextRuns: Map<string, Date>; // `${name} ${cron}` -> next run time
+  running: Set<string>;
+}
+
+// Kept on globalThis so the scheduler is started once per process
+const globalForScheduler = globalThis as unknown as { syncScheduler?: SchedulerState };
+
+/**
+ * Expand the config into schedules: one per group, plus the default schedule
+ * for every configured repo that isn't in a group.
+ */
+export function getSyncSchedules(config: RepoConfig): SyncSchedule[] {
+  const schedules: SyncSchedule[] = [];
+  const grouped = new Set<string>();
+
+  for (const [name, group] of Object.entries(config.syncScheduleGroups || {})) {
+    const repos = group.repos.filter((repo) => config.repos.includes(repo));
+    repos.forEach((repo) => grouped.add(repo));
+    schedules.push({ name, cron: group.cron, repos });
+  }
+
+  if (config.syncSchedule) {
+    schedules.push({
+      name: DEFAULT_SCHEDULE_NAME,
+      cron: config.syncSchedule,
+      repos: config.repos.filter((repo) => !grouped.has(repo)),
+    });
+  }
+
+  return schedules;
+}
+
+export function getSyncScheduleStatus(config: RepoConfig): SyncScheduleStatus[] {
+  return getSyncSchedules(config).map((schedule) => {
+    const valid = isValidCron(schedule.cron);
+    const nextRun = valid ? getNextCronDate(schedule.cron) : null;
+
+    return {
+      name: schedule.name,
+      cron: schedule.cron,
+      repoCount: schedule.repos.length,
+      nextRunAt: nextRun ? nextRun.toISOString() : null,
+      lastRun: getLastScheduledSyncRun(schedule.name),
+      error: valid ? null : `Invalid cron expression "${schedule.cron}"`,
+    };
+  });
+}
+
+async function runScheduledSync(schedule: SyncSchedule, scheduledFor: Date): Promise<void> {
+  const startedAt = new Date().toISOString();
+  let status: ScheduledSyncRunStatus = 'skipped';
+  let jobId: string | null = null;
+  let error: string | null = null;
+
+  try {
+    if (schedule.repos.length === 0) {
+      error = 'No repositories in schedule';
+    } else {
+      // Skipped with "A sync is already running" if another job is active; that check is atomic with starting the job
+      const result = await requestSyncJob({ repos: schedule.repos, fullSync: false });
+
+      if (!result.started) {
+        error = String(result.body.error ?? result.body.message ?? 'Sync not started');
+      } else {
+        jobId = result.job.id;
+        const job = await waitForSyncJob(jobId);
+        status = job?.status === 'completed' || job?.status === 'cancelled' ? job.status : 'failed';
+        error = job?.error ?? null;
+      }
+    }
+  } catch (err) {
+    status = 'failed';
+    error = err instanceof Error ? err.message : 'Unknown error';
+  }
+
+  if (status === 'skipped') {
+    console.log(`Skipped scheduled sync "${schedule.name}": ${error}`);
+  }
+
+  recordScheduledSyncRun({
+    schedule: schedule.name,
+    status,
+    jobId,
+    error,
+    scheduledFor: scheduledFor.toISOString(),
+    startedAt,
+    finishedAt: new Date().toISOString(),
+  });
+}
+
+async function tick(state: SchedulerState): Promise<void> {
+  const now = new Date();
+  const config = await getRepoConfig();
+  const activeKeys = new Set<string>();
+
+  for (const schedule of getSyncSchedules(config)) {
+    if (!isValidCron(schedule.cron)) continue;
+
+    // Keyed by cron too, so editing a schedule's expression reschedules it
+    const key = `${schedule.name} ${schedule.cron}`;
+    activeKeys.add(key);
+
+    const nextRun = state.nextRuns.get(key);
+    if (!nextRun) {
+      const first = getNextCronDate(schedule.cron, now);
+      if (first) state.nextRuns.set(key, first);
+      continue;
+    }
+
+    if (now < nextRun) continue;
+
+    const following = getNextCronDate(schedule.cron, now);
+    if (following) {
+      state.nextRuns.set(key, following);
+    } else {
+      state.nextRuns.delete(key);
+    }
+
+    if (state.running.has(schedule.name)) continue;
+
+    state.running.add(schedule.name);
+    runScheduledSync(schedule, nextRun).finally(() => {
+      state.running.delete(schedule.name);
+    });
+  }
+
+  // Forget schedules removed from the config
+  for (const key of Array.from(state.nextRuns.keys())) {
+    if (!activeKeys.has(key)) state.nextRuns.delete(key);
+  }
+}
+
+/**
+ * Start the in-process scheduler that runs quick syncs on the cron schedules in
+ * the repo config. The config is re-read every minute, so schedule changes
+ * apply without a restart. Calling this more than once has no effect.
+ */
+export function startSyncScheduler(): void {
+  if (globalForScheduler.syncScheduler) return;
+
+  const state: SchedulerState = { nextRuns: new Map(), running: new Set() };
+  globalForScheduler.syncScheduler = state;
+
+  const loop = () => {
+    tick(state)
+      .catch((error) => console.error('Sync scheduler error:', error))
+      .finally(() => {
+        // Align ticks to the start of each minute
+        setTimeout(loop, TICK_INTERVAL_MS - (Date.now() % TICK_INTERVAL_MS));
+      });
+  };
+
+  loop();
+}
@@ -0,0 +1,171 @@
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes, timingSafeEqual } from 'crypto';
+import {
+  createSession,
+  getActiveSession,
+  saveSessionAccount,
+  getSessionEncryptedTokens,
+  revokeSession,
+  deleteExpiredSessions,
+} from './database';
+import { Session, SessionAccount } from '@/types';
+
+// Opaque id of the server-side session; the OAuth tokens never leave the server
+export const SESSION_COOKIE = 'github_session';
+
+// Holds the OAuth state and host between the sign-in redirect and the callback
+export const OAUTH_STATE_COOKIE = 'github_oauth_state';
+
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7; // 1 week
+export const OAUTH_STATE_TTL_SECONDS = 60 * 10; // 10 minutes to complete the sign-in
+
+// Cookies set before sessions held the tokens; cleared on sign-in and sign-out
+const LEGACY_COOKIE_PREFIXES = ['github_token', 'github_user'];
+
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+
+type CookieReader = { get(name: string): { value: string } | undefined };
+
+// Options of the session and OAuth state cookies; a maxAge of 0 clears the cookie
+export function cookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    maxAge,
+    path: '/',
+  };
+}
+
+/**
+ * Derive the token encryption key from SESSION_SECRET. Changing the secret
+ * makes the stored tokens unreadable, which signs everyone out.
+ */
+function getEncryptionKey(): Buffer {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('SESSION_SECRET is missing or too short. Set it in .env to a random string of at least 32 characters');
+  }
+
+  return Buffer.from(hkdfSync('sha256', secret, '', 'github-activity-analysis session tokens', 32));
+}
+
+// Throws if SESSION_SECRET is missing, so sign-in fails before sending the user to GitHub
+export function assertSessionSecret(): void {
+  getEncryptionKey();
+}
+
+// "<iv>.<auth tag>.<ciphertext>", each base64url
+export function encryptToken(token: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ENCRYPTION_ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+export function decryptToken(value: string): string {
+  const [iv, authTag, ciphertext] = value.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+// Only the hash is stored, so a copy of the database can't be used to take over sessions
+function hashSessionId(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex');
+}
+
+function getSessionExpiry(): Date {
+  return new Date(Date.now() + SESSION_TTL_SECONDS * 1000);
+}
+
+/**
+ * Create a session and return its id, the value of the session cookie. Every
+ * sign-in starts a new session, so an id planted in the browser beforehand
+ * (session fixation) never gets a token; the accounts of the previous session
+ * carry over and that session is revoked.
+ */
+export function startSession(previous: Session | null = null): string {
+  deleteExpiredSessions();
+
+  const sessionId = randomBytes(32).toString('base64url');
+  createSession(hashSessionId(sessionId), getSessionExpiry(), previous?.id ?? null);
+  return sessionId;
+}
+
+// The request's session, or null if it has none or it expired or was revoked
+export function getSession(cookies: CookieReader): Session | null {
+  const sessionId = cookies.get(SESSION_COOKIE)?.value;
+  return sessionId ? getActiveSession(hashSessionId(sessionId)) : null;
+}
+
+/**
+ * Sign an account in to a session, replacing the session's account on the
+ * same host, and extend the session by another week.
+ */
+export function addSessionAccount(sessionId: string, account: Omit<SessionAccount, 'signedInAt'>, token: string): void {
+  saveSessionAccount(
+    hashSessionId(sessionId),
+    { ...account, signedInAt: new Date().toISOString() },
+    encryptToken(token),
+    getSessionExpiry()
+  );
+}
+
+/**
+ * Decrypt the OAuth tokens of the request's session, keyed by host name.
+ * Tokens that no longer decrypt, e.g. after SESSION_SECRET changed, are left out.
+ */
+export function getSessionTokens(cookies: CookieReader): Record<string, string> {
+  const session = getSession(cookies);
+  if (!session) return {};
+
+  const tokens: Record<string, string> = {};
+  for (const { host, encryptedToken } of getSessionEncryptedTokens(session.id)) {
+    try {
+      tokens[host] = decryptToken(encryptedToken);
+    } catch (error) {
+      console.warn(`Could not decrypt the session token for ${host}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return tokens;
+}
+
+export function endSession(session: Session): void {
+  revokeSession(session.id);
+}
+
+export function createOAuthState(hostName: string): { state: string; cookie: string } {
+  const state = randomBytes(32).toString('base64url');
+  return { state, cookie: JSON.stringify({ state, host: hostName }) };
+}
+
+/**
+ * Check the `state` GitHub sent back to the callback against the one saved at
+ * sign-in, and return the host the sign-in was for. Returns null when they
+ * don't match, which means the callback wasn't started by this browser.
+ */
+export function verifyOAuthState(cookies: CookieReader, state: string | null): string | null {
+  const cookie = cookies.get(OAUTH_STATE_COOKIE)?.value;
+  if (!cookie || !state) return null;
+
+  let saved: { state?: unknown; host?: unknown };
+  try {
+    saved = JSON.parse(cookie);
+  } catch {
+    return null;
+  }
+  if (typeof saved.state !== 'string' || typeof saved.host !== 'string') return null;
+
+  const expected = Buffer.from(saved.state);
+  const actual = Buffer.from(state);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  return saved.host;
+}
+
+// Names of the request's cookies from before sessions, which held raw tokens and user info
+export function getLegacyCookieNames(cookies: { getAll(): { name: string }[] }): string[] {
+  return cookies.getAll()
+    .map((cookie) => cookie.name)
+    .filter((name) => LEGACY_COOKIE_PREFIXES.some((prefix) => name === prefix || name.startsWith(`${prefix}.`)));
+}
@@ -0,0 +1,133 @@
+import { readSnapshotRecords, importSnapshotRecord } from './database';
+import { LATEST_SCHEMA_VERSION } from './migrations';
+import { SnapshotFilter, SnapshotHeader, SnapshotImportResult, SnapshotRecord, SnapshotRecordType, SnapshotRow } from '@/types';
+
+export const SNAPSHOT_FORMAT = 'pr-cache-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+const RECORD_TYPES: SnapshotRecordType[] = ['pull_request', 'issue', 'release', 'deployment', 'sync_status'];
+
+/**
+ * Export the cache as JSON Lines: a header describing the snapshot, then one
+ * record per line.
+ */
+export function* exportSnapshot(filter: SnapshotFilter): Generator<string> {
+  const header: SnapshotHeader = {
+    type: 'header',
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    schemaVersion: LATEST_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    filter,
+  };
+  yield `${JSON.stringify(header)}\n`;
+
+  const records = readSnapshotRecords(filter);
+  for (let next = records.next(); !next.done; next = records.next()) {
+    yield `${JSON.stringify(next.value)}\n`;
+  }
+}
+
+function parseHeader(line: string): SnapshotHeader {
+  const header = JSON.parse(line) as SnapshotHeader;
+  if (header.type !== 'header' || header.format !== SNAPSHOT_FORMAT) {
+    throw new Error('Not a cache snapshot: the first line must be its header');
+  }
+  if (header.version > SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot format version ${header.version} is newer than this app supports (${SNAPSHOT_VERSION})`);
+  }
+  if (header.schemaVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(`Snapshot was exported from schema version ${header.schemaVersion}; update this app to import it`);
+  }
+  return header;
+}
+
+function parseRecord(line: string): SnapshotRecord {
+  const record = JSON.parse(line) as SnapshotRecord;
+  if (!RECORD_TYPES.includes(record.type) || typeof record.row !== 'object' || record.row === null) {
+    throw new Error('Unknown record');
+  }
+
+  // Detail rows travel inside their PR's record; one pointing at another PR would overwrite that PR's details
+  if (record.type === 'pull_request') {
+    if (typeof record.details !== 'object' || record.details === null) {
+      throw new Error(`PR ${record.row.id} has no details`);
+    }
+    for (const [table, rows] of Object.entries(record.details)) {
+      if (!Array.isArray(rows) || rows.some((row) => row?.pr_id !== record.row.id)) {
+        throw new Error(`${table} rows of PR ${record.row.id} must all have pr_id ${record.row.id}`);
+      }
+    }
+  }
+
+  if (record.type === 'deployment') {
+    const belongs = (row: SnapshotRow) => row?.repo === record.row.repo && row?.deployment_id === record.row.id;
+    if (!Array.isArray(record.statuses) || !record.statuses.every(belongs)) {
+      throw new Error(`Statuses of deployment ${record.row.id} must all belong to it`);
+    }
+  }
+
+  return record;
+}
+
+// Split a byte stream into lines
+async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    yield* lines;
+
+    if (done) break;
+  }
+
+  if (buffer) {
+    yield buffer;
+  }
+}
+
+/**
+ * Merge a JSON Lines snapshot into the cache, record by record. Data the cache
+ * already has in a newer state is kept (see importSnapshotRecord). An invalid
+ * line stops the import; the records before it stay merged.
+ */
+export async function importSnapshot(stream: ReadableStream<Uint8Array>): Promise<SnapshotImportResult> {
+  const counts = () => Object.fromEntries(RECORD_TYPES.map((type) => [type, 0])) as Record<SnapshotRecordType, number>;
+  const result: SnapshotImportResult = { imported: counts(), skipped: counts(), error: null };
+
+  let lineNumber = 0;
+  let header: SnapshotHeader | null = null;
+  try {
+    for await (const line of readLines(stream)) {
+      lineNumber++;
+      if (!line.trim()) continue;
+
+      if (!header) {
+        header = parseHeader(line);
+        continue;
+      }
+
+      const record = parseRecord(line);
+      if (importSnapshotRecord(record)) {
+        result.imported[record.type]++;
+      } else {
+        result.skipped[record.type]++;
+      }
+    }
+
+    if (!header) {
+      result.error = 'Snapshot is empty';
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    result.error = `Line ${lineNumber}: ${message}`;
+  }
+
+  return result;
+}
@@ -0,0 +1,1203 @@
+import { calculatePRSize } from './analyzer';
+import { Octokit } from '@octokit/rest';
+import { GraphQLClient } from './ratelimit';
+import type { PullRequestSource } from './providers';
+import { getRepoConfig } from './config';
+import { formatGitHubRepo, parseGitHubRepo } from './github';
+import {
+  savePullRequests,
+  updateSyncStatus,
+  getLastSyncedAt,
+  getSyncCheckpoint,
+  saveSyncCheckpoint,
+  deleteSyncCheckpoint,
+  getPRCommitLineCounts,
+} from './database';
+import {
+  CIState,
+  CommitCoAuthor,
+  MergeMethod,
+  PRCheck,
+  PRCommit,
+  PRFile,
+  PRReview,
+  PRReviewRequest,
+  PullRequest,
+  SyncCheckpoint,
+} from '@/types';
+
+const REQUESTED_REVIEWER_FIELDS = `
+  __typename
+  ... on User { login }
+  ... on Bot { login }
+  ... on Team { slug }
+`;
+
+const REVIEW_REQUEST_EVENT_FIELDS = `
+  __typename
+  ... on ReviewRequestedEvent {
+    createdAt
+    requestedReviewer { ${REQUESTED_REVIEWER_FIELDS} }
+  }
+  ... on ReviewRequestRemovedEvent {
+    createdAt
+    requestedReviewer { ${REQUESTED_REVIEWER_FIELDS} }
+  }
+`;
+
+const COMMIT_FIELDS = `
+  commit {
+    oid
+    message
+    messageHeadline
+    additions
+    deletions
+    committedDate
+    author { name email user { login } }
+    committer { name email user { login } }
+  }
+`;
+
+// GraphQL query to fetch PRs with all details including files and reviews in a single request
+const PR_QUERY = `
+  query($owner: String!, $repo: String!, $cursor: String) {
+    rateLimit {
+      cost
+      remaining
+      resetAt
+    }
+    repository(owner: $owner, name: $repo) {
+      pullRequests(
+        first: 50
+        after: $cursor
+        orderBy: { field: UPDATED_AT, direction: DESC }
+        states: [OPEN, CLOSED, MERGED]
+      ) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          id
+          number
+          title
+          state
+          createdAt
+          updatedAt
+          mergedAt
+          closedAt
+          additions
+          deletions
+          changedFiles
+          url
+          isDraft
+          baseRefName
+          headRefName
+          author {
+            login
+            avatarUrl
+          }
+          labels(first: 20) {
+            nodes {
+              name
+            }
+          }
+          milestone {
+            title
+          }
+          mergeCommit {
+            oid
+            messageHeadline
+            parents {
+              totalCount
+            }
+          }
+          autoMergeRequest {
+            mergeMethod
+          }
+          files(first: 100) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              path
+              additions
+              deletions
+            }
+          }
+          reviews(first: 50) {
+            totalCount
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              author {
+                login
+              }
+              state
+              submittedAt
+              body
+              comments {
+                totalCount
+              }
+            }
+          }
+          timelineItems(first: 50, itemTypes: [REVIEW_REQUESTED_EVENT, REVIEW_REQUEST_REMOVED_EVENT]) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              ${REVIEW_REQUEST_EVENT_FIELDS}
+            }
+          }
+          commits(first: 100) {
+            totalCount
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              ${COMMIT_FIELDS}
+            }
+          }
+          headCommit: commits(last: 1) {
+            nodes {
+              commit {
+                statusCheckRollup {
+                  state
+                  contexts(first: 100) {
+                    nodes {
+                      __typename
+                      ... on CheckRun {
+                        name
+                        status
+                        conclusion
+                        startedAt
+                        completedAt
+                      }
+                      ... on StatusContext {
+                        context
+                        state
+                        createdAt
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+          closingIssuesReferences(first: 10) {
+            nodes {
+              number
+              title
+              url
+              createdAt
+              closedAt
+              author {
+                login
+              }
+              labels(first: 20) {
+                nodes {
+                  name
+                }
+              }
+              repository {
+                nameWithOwner
+              }
+            }
+          }
+          reviewRequests(first: 20) {
+            nodes {
+              requestedReviewer {
+                ${REQUESTED_REVIEWER_FIELDS}
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Follow-up queries for PRs whose files or reviews don't fit in the first page
+const PR_FILES_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    rateLimit {
+      cost
+      remaining
+      resetAt
+    }
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        files(first: 100, after: $cursor) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            path
+            additions
+            deletions
+          }
+        }
+      }
+    }
+  }
+`;
+
+const PR_REVIEWS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    rateLimit {
+      cost
+      remaining
+      resetAt
+    }
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviews(first: 100, after: $cursor) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            author {
+              login
+            }
+            state
+            submittedAt
+            body
+            comments {
+              totalCount
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const PR_COMMITS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    rateLimit {
+      cost
+      remaining
+      resetAt
+    }
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        commits(first: 100, after: $cursor) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            ${COMMIT_FIELDS}
+          }
+        }
+      }
+    }
+  }
+`;
+
+const PR_TIMELINE_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    rateLimit {
+      cost
+      remaining
+      resetAt
+    }
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        timelineItems(first: 100, after: $cursor, itemTypes: [REVIEW_REQUESTED_EVENT, REVIEW_REQUEST_REMOVED_EVENT]) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            ${REVIEW_REQUEST_EVENT_FIELDS}
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Upper bounds on follow-up pages per PR. GitHub itself stops listing files
+// after 3000, so anything beyond these limits is flagged as truncated.
+const MAX_FILE_PAGES = 30;
+const MAX_REVIEW_PAGES = 10;
+const MAX_TIMELINE_PAGES = 10;
+const MAX_COMMIT_PAGES = 3; // GitHub lists at most 250 commits per PR
+
+// Map file extensions to programming languages
+const EXTENSION_TO_LANGUAGE: Record<string, string> = {
+  // JavaScript/TypeScript
+  '.js': 'JavaScript', '.jsx': 'JavaScript', '.mjs': 'JavaScript', '.cjs': 'JavaScript',
+  '.ts': 'TypeScript', '.tsx': 'TypeScript', '.mts': 'TypeScript', '.cts': 'TypeScript',
+  // Python
+  '.py': 'Python', '.pyw': 'Python', '.pyi': 'Python',
+  // Java/Kotlin
+  '.java': 'Java', '.kt': 'Kotlin', '.kts': 'Kotlin',
+  // C/C++
+  '.c': 'C', '.h': 'C', '.cpp': 'C++', '.cc': 'C++', '.cxx': 'C++', '.hpp': 'C++', '.hxx': 'C++',
+  // C#
+  '.cs': 'C#',
+  // Go
+  '.go': 'Go',
+  // Rust
+  '.rs': 'Rust',
+  // Ruby
+  '.rb': 'Ruby', '.erb': 'Ruby',
+  // PHP
+  '.php': 'PHP',
+  // Swift
+  '.swift': 'Swift',
+  // Scala
+  '.scala': 'Scala', '.sc': 'Scala',
+  // Shell
+  '.sh': 'Shell', '.bash': 'Shell', '.zsh': 'Shell',
+  // SQL
+  '.sql': 'SQL',
+  // HTML/CSS
+  '.html': 'HTML', '.htm': 'HTML', '.css': 'CSS', '.scss': 'SCSS', '.sass': 'SCSS', '.less': 'LESS',
+  // Markdown/Docs
+  '.md': 'Markdown', '.mdx': 'Markdown', '.rst': 'reStructuredText',
+  // Config/Data
+  '.json': 'JSON', '.yaml': 'YAML', '.yml': 'YAML', '.toml': 'TOML', '.xml': 'XML',
+  // Other
+  '.vue': 'Vue', '.svelte': 'Svelte', '.dart': 'Dart', '.r': 'R', '.R': 'R',
+  '.lua': 'Lua', '.pl': 'Perl', '.pm': 'Perl', '.ex': 'Elixir', '.exs': 'Elixir',
+  '.erl': 'Erlang', '.hrl': 'Erlang', '.clj': 'Clojure', '.cljs': 'Clojure',
+  '.hs': 'Haskell', '.ml': 'OCaml', '.fs': 'F#', '.fsx': 'F#',
+};
+
+export function getLanguageFromPath(path: string): string {
+  const ext = '.' + path.split('.').pop()?.toLowerCase();
+  return EXTENSION_TO_LANGUAGE[ext] || 'Other';
+}
+
+interface GraphQLFileNode {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+interface GraphQLReviewNode {
+  author: { login: string } | null;
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+  submittedAt: string;
+  body: string;
+  comments: { totalCount: number };
+}
+
+type GraphQLRequestedReviewer =
+  | { __typename: 'User' | 'Bot'; login: string }
+  | { __typename: 'Team'; slug: string }
+  | { __typename: 'Mannequin' };
+
+interface GraphQLReviewRequestEvent {
+  __typename: 'ReviewRequestedEvent' | 'ReviewRequestRemovedEvent';
+  createdAt: string;
+  requestedReviewer: GraphQLRequestedReviewer | null;
+}
+
+interface GraphQLIssueNode {
+  number: number;
+  title: string;
+  url: string;
+  createdAt: string;
+  closedAt: string | null;
+  author: { login: string } | null;
+  labels: { nodes: Array<{ name: string }> } | null;
+  repository: { nameWithOwner: string };
+}
+
+interface GraphQLGitActor {
+  name: string;
+  email: string;
+  user: { login: string } | null;
+}
+
+interface GraphQLCommitNode {
+  commit: {
+    oid: string;
+    message: string;
+    messageHeadline: string;
+    additions: number;
+    deletions: number;
+    committedDate: string;
+    author: GraphQLGitActor | null;
+    committer: GraphQLGitActor | null;
+  };
+}
+
+type GraphQLCheckContext =
+  | {
+      __typename: 'CheckRun';
+      name: string;
+      status: string;
+      conclusion: string | null;
+      startedAt: string | null;
+      completedAt: string | null;
+    }
+  | { __typename: 'StatusContext'; context: string; state: string; createdAt: string };
+
+interface GraphQLStatusCheckRollup {
+  state: 'SUCCESS' | 'FAILURE' | 'ERROR' | 'PENDING' | 'EXPECTED';
+  contexts: { nodes: GraphQLCheckContext[] };
+}
+
+interface GraphQLPageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface GraphQLConnection<T> {
+  pageInfo: GraphQLPageInfo;
+  nodes: T[];
+}
+
+interface GraphQLPRNode {
+  id: string;
+  number: number;
+  title: string;
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  createdAt: string;
+  updatedAt: string;
+  mergedAt: string | null;
+  closedAt: string | null;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  url: string;
+  isDraft: boolean;
+  baseRefName: string;
+  headRefName: string;
+  author: {
+    login: string;
+    avatarUrl: string;
+  } | null;
+  labels: { nodes: Array<{ name: string }> } | null;
+  milestone: { title: string } | null;
+  mergeCommit: { oid: string; messageHeadline: string; parents: { totalCount: number } } | null;
+  autoMergeRequest: { mergeMethod: 'MERGE' | 'SQUASH' | 'REBASE' } | null;
+  reviewRequests: { nodes: Array<{ requestedReviewer: GraphQLRequestedReviewer | null }> } | null;
+  closingIssuesReferences: { nodes: GraphQLIssueNode[] } | null;
+  headCommit: { nodes: Array<{ commit: { statusCheckRollup: GraphQLStatusCheckRollup | null } }> };
+  commits: GraphQLConnection<GraphQLCommitNode> & {
+    totalCount: number;
+  };
+  files: GraphQLConnection<GraphQLFileNode>;
+  reviews: GraphQLConnection<GraphQLReviewNode> & {
+    totalCount: number;
+  };
+  timelineItems: GraphQLConnection<GraphQLReviewRequestEvent>;
+}
+
+// Connections of a PR that are paginated with follow-up queries
+type PRConnectionKey = 'files' | 'reviews' | 'timelineItems' | 'commits';
+
+// Complete files, reviews and review request events of a PR, after any follow-up pagination
+interface PRDetails {
+  files: GraphQLFileNode[];
+  reviews: GraphQLReviewNode[];
+  reviewRequestEvents: GraphQLReviewRequestEvent[];
+  commits: GraphQLCommitNode[];
+  commitCount: number;
+  reviewCount: number;
+  filesTruncated: boolean;
+  reviewsTruncated: boolean;
+}
+
+interface GraphQLPRConnectionResponse<K extends PRConnectionKey, T> {
+  repository: {
+    pullRequest: Record<K, GraphQLConnection<T>>;
+  };
+}
+
+interface GraphQLResponse {
+  repository: {
+    pullRequests: {
+      pageInfo: { hasNextPage: boolean; endCursor: string };
+      nodes: GraphQLPRNode[];
+    };
+  };
+}
+
+// How long an interrupted sync's checkpoint can be resumed before it is discarded
+export const DEFAULT_CHECKPOINT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Repos synced more recently than this are skipped when resuming a full sync
+const RESUME_THRESHOLD_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Resolve the repos a sync request applies to: the explicitly requested list,
+ * or every configured repo when none was given.
+ */
+export async function resolveSyncRepos(requestedRepos: unknown): Promise<string[]> {
+  if (requestedRepos && Array.isArray(requestedRepos)) {
+    return requestedRepos.filter((repo): repo is string => typeof repo === 'string');
+  }
+
+  const config = await getRepoConfig();
+  return config.repos;
+}
+
+/**
+ * Split repos into those that still need syncing and those synced within the
+ * resume threshold.
+ */
+export function partitionRecentlySynced(repos: string[]): { pending: string[]; skipped: string[] } {
+  const now = Date.now();
+  const pending: string[] = [];
+  const skipped: string[] = [];
+
+  for (const repo of repos) {
+    const lastSynced = getLastSyncedAt(repo);
+    if (lastSynced && (now - lastSynced.getTime()) < RESUME_THRESHOLD_MS) {
+      skipped.push(repo);
+    } else {
+      pending.push(repo);
+    }
+  }
+
+  return { pending, skipped };
+}
+
+/**
+ * Determine cutoff date:
+ * - Full sync: use the repo's sync horizon
+ * - Quick sync: use last sync date minus 24 hours, or the horizon if never synced
+ *   (never reaching further back than the horizon)
+ */
+export function getSyncCutoffDate(repoPath: string, fullSync: boolean, horizon: Date): Date {
+  if (fullSync) {
+    return horizon;
+  }
+
+  const lastSynced = getLastSyncedAt(repoPath);
+  if (lastSynced) {
+    const since = new Date(lastSynced.getTime() - 24 * 60 * 60 * 1000);
+    return since > horizon ? since : horizon;
+  }
+
+  return horizon;
+}
+
+export function isRateLimitError(message: string): boolean {
+  return message.includes('rate limit') || message.includes('403') || message.includes('RATE_LIMITED');
+}
+
+/**
+ * Fetch the remaining pages of a PR's files, reviews or timeline connection,
+ * starting after the first page returned by PR_QUERY. Returns every node
+ * collected and whether the connection still had more pages when we gave up.
+ */
+async function fetchRemainingNodes<K extends PRConnectionKey, T>(
+  graphql: GraphQLClient,
+  query: string,
+  key: K,
+  variables: { owner: string; repo: string; number: number },
+  first: GraphQLConnection<T>,
+  maxPages: number
+): Promise<{ nodes: T[]; truncated: boolean }> {
+  const nodes = [...(first?.nodes || [])];
+  let pageInfo = first?.pageInfo;
+  let pages = 0;
+
+  while (pageInfo?.hasNextPage && pages < maxPages) {
+    try {
+      const response = await graphql<GraphQLPRConnectionResponse<K, T>>(query, {
+        ...variables,
+        cursor: pageInfo.endCursor,
+      });
+      const connection = response.repository.pullRequest[key];
+      nodes.push(...connection.nodes);
+      pageInfo = connection.pageInfo;
+      pages++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      // Rate limits must stop the whole sync; other failures just leave this PR truncated
+      if (isRateLimitError(message)) {
+        throw error;
+      }
+      console.warn(`Could not fetch all ${key} for PR #${variables.number}:`, message);
+      break;
+    }
+  }
+
+  return { nodes, truncated: Boolean(pageInfo?.hasNextPage) };
+}
+
+/**
+ * Complete a PR node's files, reviews and review request events with
+ * follow-up queries when the first page returned by PR_QUERY was not the whole
+ * connection.
+ */
+async function completePRNode(
+  graphql: GraphQLClient,
+  owner: string,
+  repo: string,
+  pr: GraphQLPRNode
+): Promise<PRDetails> {
+  const variables = { owner, repo, number: pr.number };
+
+  const files = await fetchRemainingNodes(graphql, PR_FILES_QUERY, 'files', variables, pr.files, MAX_FILE_PAGES);
+  const reviews = await fetchRemainingNodes(graphql, PR_REVIEWS_QUERY, 'reviews', variables, pr.reviews, MAX_REVIEW_PAGES);
+  const timeline = await fetchRemainingNodes(graphql, PR_TIMELINE_QUERY, 'timelineItems', variables, pr.timelineItems, MAX_TIMELINE_PAGES);
+  const commits = await fetchRemainingNodes(graphql, PR_COMMITS_QUERY, 'commits', variables, pr.commits, MAX_COMMIT_PAGES);
+
+  return {
+    files: files.nodes,
+    reviews: reviews.nodes,
+    reviewRequestEvents: timeline.nodes,
+    commits: commits.nodes,
+    commitCount: pr.commits?.totalCount || commits.nodes.length,
+    reviewCount: pr.reviews?.totalCount || 0,
+    filesTruncated: files.truncated,
+    reviewsTruncated: reviews.truncated,
+  };
+}
+
+/**
+ * GitHub doesn't record how a PR was merged, so infer it: auto-merge requests
+ * carry the method, a merge commit has two parents, and squash commits keep
+ * GitHub's default "Title (#123)" headline. Anything else was rebased.
+ */
+function getMergeMethod(pr: Omit<GraphQLPRNode, PRConnectionKey>): MergeMethod | null {
+  if (pr.state !== 'MERGED' || !pr.mergeCommit) return null;
+
+  if (pr.autoMergeRequest) {
+    return pr.autoMergeRequest.mergeMethod.toLowerCase() as MergeMethod;
+  }
+  if (pr.mergeCommit.parents.totalCount > 1) {
+    return 'merge';
+  }
+  return pr.mergeCommit.messageHeadline.endsWith(`(#${pr.number})`) ? 'squash' : 'rebase';
+}
+
+function getRequestedReviewer(reviewer: GraphQLRequestedReviewer | null): { name: string; isTeam: boolean } | null {
+  if (!reviewer) return null;
+  if ('slug' in reviewer) return { name: reviewer.slug, isTeam: true };
+  if ('login' in reviewer) return { name: reviewer.login, isTeam: false };
+  return null;
+}
+
+/**
+ * Turn review request timeline events into one request per ask. Asking a
+ * reviewer again before they responded doesn't start a new request, but
+ * re-requesting a review after they reviewed does.
+ */
+function toReviewRequests(events: GraphQLReviewRequestEvent[], reviews: PRReview[]): PRReviewRequest[] {
+  const requests: PRReviewRequest[] = [];
+  const pending = new Map<string, PRReviewRequest>();
+  const sorted = [...events].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  for (const event of sorted) {
+    const reviewer = getRequestedReviewer(event.requestedReviewer);
+    if (!reviewer) continue;
+
+    const key = `${reviewer.isTeam ? 'team' : 'user'}:${reviewer.name}`;
+    const current = pending.get(key);
+
+    if (event.__typename === 'ReviewRequestRemovedEvent') {
+      if (current) {
+        current.removedAt = event.createdAt;
+        pending.delete(key);
+      }
+      continue;
+    }
+
+    const answered = current && reviews.some(
+      (review) => review.reviewer === reviewer.name && review.submittedAt >= current.requestedAt
+    );
+    if (current && !answered) continue;
+
+    const request: PRReviewRequest = {
+      reviewer: reviewer.name,
+      isTeam: reviewer.isTeam,
+      requestedAt: event.createdAt,
+      removedAt: null,
+    };
+    requests.push(request);
+    pending.set(key, request);
+  }
+
+  return requests;
+}
+
+/**
+ * Share of a PR's changed lines per language, as percentages
+ */
+export function getLanguageBreakdown(files: PRFile[]): Record<string, number> {
+  const languageLines: Record<string, number> = {};
+  for (const file of files) {
+    const language = getLanguageFromPath(file.path);
+    const lines = file.additions + file.deletions;
+    languageLines[language] = (languageLines[language] || 0) + lines;
+  }
+
+  // Convert to percentages
+  const totalLines = Object.values(languageLines).reduce((sum, n) => sum + n, 0);
+  const languages: Record<string, number> = {};
+  for (const [lang, lines] of Object.entries(languageLines)) {
+    languages[lang] = totalLines > 0 ? Math.round((lines / totalLines) * 100) : 0;
+  }
+
+  return languages;
+}
+
+const CO_AUTHOR_TRAILER = /^co-authored-by:\s*(.+?)\s*<([^>]+)>\s*$/gim;
+
+export function parseCoAuthors(message: string): CommitCoAuthor[] {
+  return Array.from(message.matchAll(CO_AUTHOR_TRAILER)).map((match) => ({ name: match[1], email: match[2] }));
+}
+
+function toPRCommit({ commit }: GraphQLCommitNode): PRCommit {
+  return {
+    oid: commit.oid,
+    authorLogin: commit.author?.user?.login || null,
+    authorName: commit.author?.name || '',
+    authorEmail: commit.author?.email || '',
+    committerLogin: commit.committer?.user?.login || null,
+    committerName: commit.committer?.name || '',
+    committedAt: commit.committedDate,
+    messageHeadline: commit.messageHeadline,
+    coAuthors: parseCoAuthors(commit.message),
+    additions: commit.additions,
+    deletions: commit.deletions,
+  };
+}
+
+function toPRCheck(context: GraphQLCheckContext): PRCheck {
+  if (context.__typename === 'StatusContext') {
+    return {
+      name: context.context,
+      conclusion: context.state.toLowerCase(),
+      startedAt: context.createdAt,
+      completedAt: null,
+      durationSeconds: null,
+    };
+  }
+
+  const { startedAt, completedAt } = context;
+  return {
+    name: context.name,
+    // Runs without a conclusion are still queued or in progress
+    conclusion: (context.conclusion || context.status).toLowerCase(),
+    startedAt,
+    completedAt,
+    durationSeconds: startedAt && completedAt
+      ? Math.round((new Date(completedAt).getTime() - new Date(startedAt).getTime()) / 1000)
+      : null,
+  };
+}
+
+function toPullRequest(
+  pr: Omit<GraphQLPRNode, PRConnectionKey>,
+  repoPath: string,
+  details: PRDetails
+): PullRequest {
+  const size = calculatePRSize(pr.additions, pr.deletions, pr.changedFiles);
+
+  let state: 'open' | 'closed' | 'merged' = 'open';
+  if (pr.state === 'MERGED') {
+    state = 'merged';
+  } else if (pr.state === 'CLOSED') {
+    state = 'closed';
+  }
+
+  // Process reviews
+  const reviews: PRReview[] = details.reviews
+    .filter(review => review.author?.login)
+    .map(review => ({
+      reviewer: review.author!.login,
+      state: review.state,
+      submittedAt: review.submittedAt,
+      bodyLength: review.body.length,
+      commentCount: review.comments.totalCount,
+    }));
+
+  const rollup = pr.headCommit.nodes[0]?.commit.statusCheckRollup ?? null;
+
+  // Reviews are submitted by users, so only user requests can be answered
+  const requestedReviewers = (pr.reviewRequests?.nodes || [])
+    .map((request) => getRequestedReviewer(request.requestedReviewer))
+    .filter((reviewer): reviewer is { name: string; isTeam: boolean } => reviewer !== null && !reviewer.isTeam)
+    .map((reviewer) => reviewer.name);
+
+  return {
+    id: parseInt(pr.id.replace(/\D/g, '').slice(-10)) || pr.number,
+    number: pr.number,
+    title: pr.title,
+    author: pr.author?.login || 'unknown',
+    authorAvatar: pr.author?.avatarUrl || '',
+    state,
+    createdAt: pr.createdAt,
+    mergedAt: pr.mergedAt,
+    closedAt: pr.closedAt,
+    updatedAt: pr.updatedAt,
+    additions: pr.additions,
+    deletions: pr.deletions,
+    changedFiles: pr.changedFiles,
+    size,
+    url: pr.url,
+    repo: repoPath,
+    isDraft: pr.isDraft,
+    baseRef: pr.baseRefName,
+    headRef: pr.headRefName,
+    labels: (pr.labels?.nodes || []).map((label) => label.name),
+    milestone: pr.milestone?.title || null,
+    mergeMethod: getMergeMethod(pr),
+    mergeCommitSha: pr.mergeCommit?.oid || null,
+    languages: getLanguageBreakdown(details.files),
+    reviewCount: details.reviewCount,
+    reviews,
+    reviewRequests: toReviewRequests(details.reviewRequestEvents, reviews),
+    ciState: rollup ? (rollup.state.toLowerCase() as CIState) : null,
+    checks: (rollup?.contexts.nodes || []).map(toPRCheck),
+    commits: details.commits.map(toPRCommit),
+    linkedIssues: pr.closingIssuesReferences?.nodes.map((issue) => ({
+      repo: formatGitHubRepo(parseGitHubRepo(repoPath).host, issue.repository.nameWithOwner),
+      number: issue.number,
+      title: issue.title,
+      url: issue.url,
+      author: issue.author?.login || null,
+      createdAt: issue.createdAt,
+      closedAt: issue.closedAt,
+      labels: (issue.labels?.nodes || []).map((label) => label.name),
+    })),
+    commitCount: details.commitCount,
+    requestedReviewers,
+    files: details.files,
+    filesTruncated: details.filesTruncated,
+    reviewsTruncated: details.reviewsTruncated,
+  };
+}
+
+/**
+ * Fetch a single PR through the REST API and normalize it exactly like a
+ * synced PR. Used to refresh individual PRs (e.g. from webhooks) without
+ * spending GraphQL quota.
+ */
+export async function fetchPullRequest(octokit: Octokit, repoPath: string, number: number): Promise<PullRequest> {
+  const { owner, repo } = parseGitHubRepo(repoPath);
+
+  const { data: pr } = await octokit.rest.pulls.get({ owner, repo, pull_number: number });
+  const files = await octokit.paginate(octokit.rest.pulls.listFiles, { owner, repo, pull_number: number, per_page: 100 });
+  const reviews = await octokit.paginate(octokit.rest.pulls.listReviews, { owner, repo, pull_number: number, per_page: 100 });
+  const reviewComments = await octokit.paginate(octokit.rest.pulls.listReviewComments, { owner, repo, pull_number: number, per_page: 100 });
+  const timeline = await octokit.paginate(octokit.rest.issues.listEventsForTimeline, { owner, repo, issue_number: number, per_page: 100 });
+  const commits = await octokit.paginate(octokit.rest.pulls.listCommits, { owner, repo, pull_number: number, per_page: 100 });
+
+  const commentCounts = new Map<number, number>();
+  for (const comment of reviewComments) {
+    if (comment.pull_request_review_id) {
+      commentCounts.set(comment.pull_request_review_id, (commentCounts.get(comment.pull_request_review_id) || 0) + 1);
+    }
+  }
+
+  let state: GraphQLPRNode['state'] = 'OPEN';
+  if (pr.merged) {
+    state = 'MERGED';
+  } else if (pr.state === 'closed') {
+    state = 'CLOSED';
+  }
+
+  let mergeCommit: GraphQLPRNode['mergeCommit'] = null;
+  if (pr.merged && pr.merge_commit_sha) {
+    const { data: commit } = await octokit.rest.repos.getCommit({ owner, repo, ref: pr.merge_commit_sha });
+    mergeCommit = {
+      oid: commit.sha,
+      messageHeadline: commit.commit.message.split('\n')[0],
+      parents: { totalCount: commit.parents.length },
+    };
+  }
+
+  const statusCheckRollup = await fetchStatusCheckRollup(octokit, owner, repo, pr.head.sha);
+
+  const pullRequest = toPullRequest(
+    {
+      id: pr.node_id,
+      number: pr.number,
+      title: pr.title,
+      state,
+      createdAt: pr.created_at,
+      updatedAt: pr.updated_at,
+      mergedAt: pr.merged_at,
+      closedAt: pr.closed_at,
+      additions: pr.additions,
+      deletions: pr.deletions,
+      changedFiles: pr.changed_files,
+      url: pr.html_url,
+      isDraft: pr.draft || false,
+      baseRefName: pr.base.ref,
+      headRefName: pr.head.ref,
+      author: pr.user ? { login: pr.user.login, avatarUrl: pr.user.avatar_url } : null,
+      labels: { nodes: pr.labels.map((label) => ({ name: label.name })) },
+      milestone: pr.milestone ? { title: pr.milestone.title } : null,
+      mergeCommit,
+      autoMergeRequest: pr.auto_merge
+        ? { mergeMethod: pr.auto_merge.merge_method.toUpperCase() as 'MERGE' | 'SQUASH' | 'REBASE' }
+        : null,
+      reviewRequests: {
+        nodes: [
+          ...(pr.requested_reviewers || []).map((user) => ({
+            requestedReviewer: { __typename: 'User' as const, login: user.login },
+          })),
+          ...(pr.requested_teams || []).map((team) => ({
+            requestedReviewer: { __typename: 'Team' as const, slug: team.slug },
+          })),
+        ],
+      },
+      headCommit: { nodes: [{ commit: { statusCheckRollup } }] },
+      // Only GraphQL exposes closing issue references; keep the links from the last sync
+      closingIssuesReferences: null,
+    },
+    repoPath,
+    {
+      files: files.map((file) => ({ path: file.filename, additions: file.additions, deletions: file.deletions })),
+      reviews: reviews.map((review) => ({
+        author: review.user ? { login: review.user.login } : null,
+        state: review.state as GraphQLReviewNode['state'],
+        submittedAt: review.submitted_at || '',
+        body: review.body || '',
+        comments: { totalCount: commentCounts.get(review.id) || 0 },
+      })),
+      reviewRequestEvents: timeline.flatMap(toReviewRequestEvent),
+      // The REST commit list has no line counts; stored commits keep theirs below, new ones fill in on the next sync
+      commits: commits.map((commit) => ({
+        commit: {
+          oid: commit.sha,
+          message: commit.commit.message,
+          messageHeadline: commit.commit.message.split('\n')[0],
+          additions: 0,
+          deletions: 0,
+          committedDate: commit.commit.committer?.date || commit.commit.author?.date || '',
+          author: {
+            name: commit.commit.author?.name || '',
+            email: commit.commit.author?.email || '',
+            user: commit.author ? { login: commit.author.login } : null,
+          },
+          committer: {
+            name: commit.commit.committer?.name || '',
+            email: commit.commit.committer?.email || '',
+            user: commit.committer ? { login: commit.committer.login } : null,
+          },
+        },
+      })),
+      commitCount: pr.commits,
+      reviewCount: reviews.length,
+      // The REST API stops listing files after 3000
+      filesTruncated: files.length < pr.changed_files,
+      reviewsTruncated: false,
+    }
+  );
+
+  const lineCounts = getPRCommitLineCounts(pullRequest.id);
+  pullRequest.commits = pullRequest.commits?.map((commit) => ({ ...commit, ...lineCounts.get(commit.oid) }));
+
+  return pullRequest;
+}
+
+/**
+ * Build the GraphQL status check rollup of a commit from its REST check runs
+ * and commit statuses. Like GitHub's rollup, any failing context fails the
+ * commit and any unfinished one leaves it pending.
+ */
+async function fetchStatusCheckRollup(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<GraphQLStatusCheckRollup | null> {
+  const checkRuns = await octokit.paginate(octokit.rest.checks.listForRef, { owner, repo, ref, per_page: 100 });
+  const { data: combined } = await octokit.rest.repos.getCombinedStatusForRef({ owner, repo, ref, per_page: 100 });
+
+  const contexts: GraphQLCheckContext[] = [
+    ...checkRuns.map((run) => ({
+      __typename: 'CheckRun' as const,
+      name: run.name,
+      status: run.status.toUpperCase(),
+      conclusion: run.conclusion ? run.conclusion.toUpperCase() : null,
+      startedAt: run.started_at,
+      completedAt: run.completed_at,
+    })),
+    ...combined.statuses.map((status) => ({
+      __typename: 'StatusContext' as const,
+      context: status.context,
+      state: status.state.toUpperCase(),
+      createdAt: status.created_at,
+    })),
+  ];
+  if (contexts.length === 0) return null;
+
+  const states = contexts.map((context) =>
+    context.__typename === 'CheckRun' ? context.conclusion || 'PENDING' : context.state
+  );
+
+  let state: GraphQLStatusCheckRollup['state'] = 'SUCCESS';
+  if (states.includes('ERROR')) {
+    state = 'ERROR';
+  } else if (states.some((s) => ['FAILURE', 'TIMED_OUT', 'CANCELLED', 'ACTION_REQUIRED', 'STARTUP_FAILURE'].includes(s))) {
+    state = 'FAILURE';
+  } else if (states.includes('PENDING')) {
+    state = 'PENDING';
+  }
+
+  return { state, contexts: { nodes: contexts } };
+}
+
+// Convert a REST timeline event into the GraphQL shape, if it is a review request event
+function toReviewRequestEvent(event: Record<string, any>): GraphQLReviewRequestEvent[] {
+  if (event.event !== 'review_requested' && event.event !== 'review_request_removed') {
+    return [];
+  }
+
+  let requestedReviewer: GraphQLRequestedReviewer | null = null;
+  if (event.requested_reviewer) {
+    requestedReviewer = { __typename: 'User', login: event.requested_reviewer.login };
+  } else if (event.requested_team) {
+    requestedReviewer = { __typename: 'Team', slug: event.requested_team.slug };
+  }
+
+  return [{
+    __typename: event.event === 'review_requested' ? 'ReviewRequestedEvent' : 'ReviewRequestRemovedEvent',
+    createdAt: event.created_at,
+    requestedReviewer,
+  }];
+}
+
+export interface SyncRepositoryOptions {
+  cutoffDate: Date;
+  // Set when the sync fetches everything since cutoffDate, so the cache is complete from then on
+  coversFromCutoff?: boolean;
+  // Checkpoints older than this are discarded instead of resumed
+  checkpointTtlMs?: number;
+  onProgress?: (fetched: number) => void;
+  isCancelled?: () => boolean;
+}
+
+export interface SyncRepositoryResult {
+  synced: number;
+  cancelled: boolean;
+  resumed: boolean;
+}
+
+/**
+ * Find a checkpoint this sync can continue from. A checkpoint is only usable
+ * if it is fresh and reaches at least as far back as the requested cutoff.
+ */
+function getResumableCheckpoint(repoPath: string, cutoffDate: Date, ttlMs: number): SyncCheckpoint | null {
+  const checkpoint = getSyncCheckpoint(repoPath);
+  if (!checkpoint) return null;
+
+  const isStale = Date.now() - new Date(checkpoint.updatedAt).getTime() > ttlMs;
+  if (isStale || new Date(checkpoint.cutoffDate) > cutoffDate) {
+    deleteSyncCheckpoint(repoPath);
+    return null;
+  }
+
+  return checkpoint;
+}
+
+/**
+ * Page through a GitHub repository's PRs with GraphQL, most recently updated
+ * first, completing each PR's files, reviews, commits and review requests.
+ */
+export function createGitHubSource(graphql: GraphQLClient, repoPath: string): PullRequestSource {
+  const { owner, repo } = parseGitHubRepo(repoPath);
+
+  return {
+    async fetchPage(cursor, cutoffDate) {
+      const response = await graphql<GraphQLResponse>(PR_QUERY, {
+        owner,
+        repo,
+        cursor,
+      });
+
+      const { pageInfo, nodes } = response.repository.pullRequests;
+      const pullRequests: PullRequest[] = [];
+
+      for (const pr of nodes) {
+        // Stop if PR is older than cutoff date
+        if (new Date(pr.updatedAt) < cutoffDate) {
+          return { pullRequests, nextCursor: null };
+        }
+
+        const details = await completePRNode(graphql, owner, repo, pr);
+        pullRequests.push(toPullRequest(pr, repoPath, details));
+      }
+
+      return { pullRequests, nextCursor: pageInfo.hasNextPage ? pageInfo.endCursor : null };
+    },
+  };
+}
+
+/**
+ * Fetch every PR updated since the cutoff date from the repo's source and
+ * save it to the local cache page by page. After each page the cursor is
+ * checkpointed, so an interrupted or cancelled sync resumes where it stopped
+ * instead of starting the repo over.
+ */
+export async function syncRepository(
+  source: PullRequestSource,
+  repoPath: string,
+  options: SyncRepositoryOptions
+): Promise<SyncRepositoryResult> {
+  const checkpoint = getResumableCheckpoint(repoPath, options.cutoffDate, options.checkpointTtlMs ?? DEFAULT_CHECKPOINT_TTL_MS);
+
+  // A resumed sync keeps the original run's cutoff and start time, so PRs
+  // updated while it was interrupted are picked up by the next quick sync
+  const cutoffDate = checkpoint ? new Date(checkpoint.cutoffDate) : options.cutoffDate;
+  const coversFromCutoff = checkpoint ? checkpoint.coversFromCutoff : Boolean(options.coversFromCutoff);
+  const startedAt = checkpoint ? new Date(checkpoint.startedAt) : new Date();
+  const previouslyFetched = checkpoint?.fetchedCount ?? 0;
+
+  let cursor: string | null = checkpoint?.cursor ?? null;
+  let fetched = 0;
+  let cancelled = false;
+
+  // Fetch PRs page by page (no count limit, only date cutoff)
+  for (;;) {
+    if (options.isCancelled?.()) {
+      cancelled = true;
+      break;
+    }
+
+    const { pullRequests, nextCursor } = await source.fetchPage(cursor, cutoffDate);
+
+    // Save each page as it arrives so progress survives interruptions
+    if (pullRequests.length > 0) {
+      savePullRequests(pullRequests);
+    }
+    fetched += pullRequests.length;
+
+    // Stop after the last page or once the cutoff date was reached
+    if (!nextCursor) {
+      break;
+    }
+
+    cursor = nextCursor;
+    saveSyncCheckpoint({
+      repo: repoPath,
+      cursor,
+      cutoffDate: cutoffDate.toISOString(),
+      coversFromCutoff,
+      fetchedCount: previouslyFetched + fetched,
+      startedAt: startedAt.toISOString(),
+    });
+    options.onProgress?.(previouslyFetched + fetched);
+  }
+
+  // A cancelled sync keeps its checkpoint and is not recorded as synced
+  if (!cancelled) {
+    deleteSyncCheckpoint(repoPath);
+    updateSyncStatus(repoPath, previouslyFetched + fetched, coversFromCutoff ? cutoffDate : undefined, startedAt);
+  }
+
+  return { synced: fetched, cancelled, resumed: checkpoint !== null };
+}
@@ -0,0 +1,163 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createServerOctokit } from './githubapp';
+import { formatGitHubRepo, getGitHubHost, parseGitHubRepo, DEFAULT_GITHUB_HOST } from './github';
+import { getRepoConfig, renameRepo } from './config';
+import { savePullRequest, renameRepoData, saveWebhookDelivery, getWebhookDelivery } from './database';
+import { fetchPullRequest } from './sync';
+import { WebhookDelivery, WebhookDeliveryStatus } from '@/types';
+
+const SUPPORTED_EVENTS = ['pull_request', 'pull_request_review', 'repository'];
+
+// Example values from .env.example and the README; anyone could sign deliveries with them
+const PLACEHOLDER_SECRETS = ['your_webhook_secret_here', 'your_webhook_secret'];
+
+// Whether the webhook secret is set to something other than an example value
+export function isWebhookSecretConfigured(secret: string | undefined): secret is string {
+  return Boolean(secret) && !PLACEHOLDER_SECRETS.includes(secret!);
+}
+
+/**
+ * Check the X-Hub-Signature-256 header against an HMAC of the raw request body.
+ */
+export function verifyWebhookSignature(body: string, signature: string | null, secret: string): boolean {
+  if (!signature?.startsWith('sha256=')) return false;
+
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`);
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Host the delivery came from; GitHub Enterprise Server repos are configured as host/owner/repo
+function getPayloadHost(payload: any): string {
+  try {
+    return new URL(payload.repository.html_url).host;
+  } catch {
+    return DEFAULT_GITHUB_HOST;
+  }
+}
+
+// Configured name a repository had before a rename or transfer event
+function getPreviousFullName(payload: any): string | null {
+  const name = payload.repository?.name;
+  const owner = payload.repository?.owner?.login;
+
+  if (payload.action === 'renamed' && payload.changes?.repository?.name?.from) {
+    return formatGitHubRepo(getPayloadHost(payload), `${owner}/${payload.changes.repository.name.from}`);
+  }
+
+  const previousOwner = payload.changes?.owner?.from?.user?.login ?? payload.changes?.owner?.from?.organization?.login;
+  if (payload.action === 'transferred' && previousOwner) {
+    return formatGitHubRepo(getPayloadHost(payload), `${previousOwner}/${name}`);
+  }
+
+  return null;
+}
+
+// Re-fetch a PR and upsert it with size, languages and reviews computed as in a sync
+async function refreshPullRequest(repo: string, number: number): Promise<void> {
+  const { host, owner, repo: name } = parseGitHubRepo(repo);
+  const octokit = await createServerOctokit(getGitHubHost(await getRepoConfig(), host), owner, name);
+  const pr = await fetchPullRequest(octokit, repo, number);
+  savePullRequest(pr);
+}
+
+async function applyWebhookEvent(event: string, payload: any, repo: string): Promise<void> {
+  switch (event) {
+    case 'pull_request':
+    case 'pull_request_review':
+      await refreshPullRequest(repo, payload.pull_request.number);
+      break;
+
+    case 'repository': {
+      // Follow renames and transfers so cached PRs stay attached to the repo
+      const previous = getPreviousFullName(payload);
+      if (previous && previous !== repo) {
+        await renameRepo(previous, repo);
+        renameRepoData(previous, repo);
+      }
+      break;
+    }
+  }
+}
+
+function createDelivery(id: string, event: string, payload: any, status: WebhookDeliveryStatus, receivedAt: string): WebhookDelivery {
+  const fullName: string | null = payload?.repository?.full_name ?? null;
+
+  return {
+    id,
+    event,
+    action: payload?.action ?? null,
+    repo: fullName !== null ? formatGitHubRepo(getPayloadHost(payload), fullName) : null,
+    status,
+    error: null,
+    payload,
+    receivedAt,
+    processedAt: null,
+  };
+}
+
+/**
+ * Record a delivery as pending and process it in the background. Processing
+ * re-fetches PRs from GitHub, which can take longer than GitHub waits for a
+ * response (10 seconds). Deliveries a restart leaves pending can be replayed.
+ */
+export function queueWebhookDelivery(id: string, event: string, payload: any): WebhookDelivery {
+  const delivery = createDelivery(id, event, payload, 'pending', new Date().toISOString());
+  saveWebhookDelivery(delivery);
+
+  handleWebhookDelivery(id, event, payload, delivery.receivedAt).catch((error) => {
+    console.error(`Could not record ${event} webhook ${id}:`, error);
+  });
+
+  return delivery;
+}
+
+/**
+ * Process a webhook delivery and record it in the deliveries table. Events for
+ * repos that are not configured are stored as ignored so they can be replayed
+ * once the repo is added.
+ */
+export async function handleWebhookDelivery(
+  id: string,
+  event: string,
+  payload: any,
+  receivedAt: string = new Date().toISOString()
+): Promise<WebhookDelivery> {
+  const delivery = createDelivery(id, event, payload, 'ignored', receivedAt);
+  const { repo } = delivery;
+
+  try {
+    const config = await getRepoConfig();
+    const previous = getPreviousFullName(payload);
+    const isConfigured = repo !== null
+      && (config.repos.includes(repo) || (previous !== null && config.repos.includes(previous)));
+
+    if (!SUPPORTED_EVENTS.includes(event)) {
+      delivery.error = `Unsupported event: ${event}`;
+    } else if (!isConfigured) {
+      delivery.error = `Repository ${repo} is not configured`;
+      console.log(`Ignoring ${event} webhook ${id}: ${delivery.error}`);
+    } else {
+      await applyWebhookEvent(event, payload, repo!);
+      delivery.status = 'processed';
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Error processing ${event} webhook ${id}:`, message);
+    delivery.status = 'failed';
+    delivery.error = message;
+  }
+
+  delivery.processedAt = new Date().toISOString();
+  saveWebhookDelivery(delivery);
+
+  return delivery;
+}
+
+export async function replayWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+  const delivery = getWebhookDelivery(id);
+  if (!delivery) return null;
+
+  return handleWebhookDelivery(delivery.id, delivery.event, delivery.payload, delivery.receivedAt);
+}
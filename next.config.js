@@ -1,6 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
+    // Runs database migrations and starts the sync scheduler (see instrumentation.ts)
+    instrumentationHook: true,
     serverComponentsExternalPackages: ['@octokit/app', '@octokit/rest', 'better-sqlite3'],
   },
   webpack: (config) => {
@@ -6,6 +6,68 @@ export interface PRReview {
   reviewer: string;
   state: ReviewState;
   submittedAt: string;
+  bodyLength?: number;
+  commentCount?: number; // Inline comments left with the review
+}
+
+export interface PRReviewRequest {
+  reviewer: string; // User login or team slug
+  isTeam?: boolean;
+  requestedAt: string;
+  removedAt: string | null; // Set when the request was withdrawn
+}
+
+export interface CommitCoAuthor {
+  name: string;
+  email: string;
+}
+
+export interface PRCommit {
+  oid: string;
+  authorLogin: string | null; // GitHub user the commit author email belongs to
+  authorName: string;
+  authorEmail: string;
+  committerLogin: string | null;
+  committerName: string;
+  committedAt: string;
+  messageHeadline: string;
+  coAuthors: CommitCoAuthor[]; // From Co-authored-by trailers
+  additions: number;
+  deletions: number;
+}
+
+// An issue a PR closes when merged
+export interface LinkedIssue {
+  repo: string; // Issues can live in another repository
+  number: number;
+  title: string;
+  url: string;
+  author: string | null;
+  createdAt: string;
+  closedAt: string | null;
+  labels: string[];
+}
+
+export type IssueType = 'bug' | 'feature' | 'other';
+
+export interface PRFile {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+export type MergeMethod = 'merge' | 'squash' | 'rebase';
+
+// Combined state of every check and status on a commit
+export type CIState = 'success' | 'failure' | 'error' | 'pending' | 'expected';
+
+// A check run or commit status on a PR's head commit
+export interface PRCheck {
+  name: string;
+  conclusion: string | null; // e.g. "success", "failure", "skipped"; the status while still running
+  startedAt: string | null;
+  completedAt: string | null;
+  durationSeconds: number | null;
 }
 
 export interface PullRequest {
@@ -18,16 +80,40 @@ export interface PullRequest {
   createdAt: string;
   mergedAt: string | null;
   closedAt: string | null;
+  updatedAt?: string; // Last updated on GitHub
   additions: number;
   deletions: number;
   changedFiles: number;
   size: PRSize;
   url: string;
   repo: string;
+  isDraft?: boolean;
+  baseRef?: string; // Branch the PR targets
+  headRef?: string;
+  labels?: string[];
+  milestone?: string | null;
+  mergeMethod?: MergeMethod | null; // Inferred from the merge commit
+  mergeCommitSha?: string | null;
+  releaseTag?: string | null; // First release that shipped the merge commit
+  releasedAt?: string | null;
+  deployedAt?: string | null; // First successful deployment that shipped the merge commit
+  firstCommitAt?: string | null;
+  ciState?: CIState | null; // Head commit's status check rollup; null when it has no checks
+  checks?: PRCheck[];
   languages?: Record<string, number>; // Language -> percentage of lines changed
   reviewCount?: number;
   reviews?: PRReview[];
+  reviewRequests?: PRReviewRequest[]; // Every review request made, from timeline events
+  requestedReviewers?: string[]; // Users whose requested review is still awaited
+  files?: PRFile[];
+  commits?: PRCommit[];
+  commitCount?: number;
+  coAuthors?: string[]; // Everyone but the author who wrote or co-authored a commit
+  linkedIssues?: LinkedIssue[];
   complexity?: number; // 0-100 complexity score
+  flow?: PRFlowMetrics;
+  filesTruncated?: boolean; // Not every changed file could be fetched, so languages are partial
+  reviewsTruncated?: boolean; // Not every review could be fetched
 }
 
 export interface ContributorStats {
@@ -41,6 +127,61 @@ export interface ContributorStats {
   prs: PullRequest[];
   languageStats?: Record<string, number>; // Language -> percentage of total lines
   avgComplexity?: number; // Average complexity score across all PRs
+  avgCommitsPerPR?: number;
+  flow?: FlowStats;
+}
+
+// Who a PR counts for: its author only, or shared equally with its co-authors
+export type Attribution = 'author' | 'coauthors';
+
+// Hours between PR milestones; null when the PR hasn't reached them
+export interface PRFlowMetrics {
+  timeToFirstReview: number | null;
+  timeToFirstApproval: number | null;
+  approvalToMerge: number | null; // Last approval before merge -> merge
+  cycleTime: number | null; // Created -> merged
+}
+
+export type FlowMetric = keyof PRFlowMetrics;
+
+// Percentiles of a set of durations, in hours
+export interface DurationStats {
+  count: number;
+  p50: number | null;
+  p75: number | null;
+  p90: number | null;
+}
+
+export type FlowStats = Record<FlowMetric, DurationStats>;
+
+export interface RepoFlowStats {
+  repo: string;
+  prCount: number;
+  metrics: FlowStats;
+}
+
+export interface ReviewerFlowStats {
+  username: string;
+  reviewedPRs: number;
+  timeToReview: DurationStats; // PR created -> this reviewer's first review
+  timeToApproval: DurationStats; // PR created -> this reviewer's first approval
+}
+
+// Median of each metric for PRs in a timeline interval
+export interface FlowTrendPoint {
+  date: string;
+  count: number;
+  timeToFirstReview: number | null;
+  timeToFirstApproval: number | null;
+  approvalToMerge: number | null;
+  cycleTime: number | null;
+}
+
+export interface FlowSummary {
+  overall: FlowStats;
+  byRepo: RepoFlowStats[]; // Per contributor stats are on ContributorStats.flow
+  byReviewer: ReviewerFlowStats[];
+  trend: FlowTrendPoint[];
 }
 
 export interface ReviewerStats {
@@ -50,10 +191,320 @@ export interface ReviewerStats {
   changesRequested: number;
   comments: number;
   reviewedPRs: number[]; // PR numbers reviewed
+  inlineComments?: number;
+  avgBodyLength?: number;
+  reviewRequests?: number; // Times the reviewer was asked to review
+  respondedRequests?: number;
+  medianResponseHours?: number | null; // Request -> first review after it
+  ignoredRequests?: number; // Withdrawn, or the PR closed, without a review
+  outstandingRequests?: number; // Still awaiting a review on open PRs
+}
+
+// A changed file joined with the PR it belongs to
+export interface PullRequestFile extends PRFile {
+  repo: string;
+  number: number;
+  author: string;
+  prLines: number; // Lines changed by the whole PR
+}
+
+export interface PathContributor {
+  username: string;
+  prCount: number;
+  lines: number;
+}
+
+export interface PathStats {
+  repo: string;
+  path: string; // Directory prefix; "" is the repository root
+  prCount: number;
+  fileChanges: number;
+  additions: number;
+  deletions: number;
+  avgPRLines: number; // Average size of the PRs touching this path
+  contributors: PathContributor[];
+}
+
+// A commit read from a local clone ("local:/path/to/repo")
+export interface LocalCommit {
+  repo: string;
+  sha: string;
+  authorName: string;
+  authorEmail: string;
+  authoredAt: string;
+  committedAt: string;
+  messageHeadline: string;
+  additions: number;
+  deletions: number;
+  files: PRFile[]; // Binary files count with 0 lines
+}
+
+export interface CommitAuthorStats {
+  author: string; // GitHub login from a noreply address, otherwise the commit author name
+  emails: string[];
+  commits: number;
+  additions: number;
+  deletions: number;
+  firstCommitAt: string;
+  lastCommitAt: string;
+}
+
+export interface CommitPathStats {
+  repo: string;
+  path: string; // Directory prefix; "" is the repository root
+  commits: number;
+  additions: number;
+  deletions: number;
+  authors: number;
+}
+
+export interface CommitAnalysis {
+  totalCommits: number;
+  additions: number;
+  deletions: number;
+  byAuthor: CommitAuthorStats[];
+  byPath: CommitPathStats[];
+  languages: Record<string, number>; // Language -> percentage of lines changed
+}
+
+// Whether reviews are selected by their own submission date or by the PR's analysis date
+export type ReviewsBy = 'review' | 'pr';
+
+export interface ReviewerStatsFilter {
+  repos: string[];
+  since: Date;
+  until: Date;
+  dateField: DateField;
+  reviewsBy: ReviewsBy;
+  authors?: string[]; // PR authors
+  sizes?: PRSize[];
+  labels?: string[]; // PRs with any of these labels
+  baseRefs?: string[];
+  excludeDrafts?: boolean;
 }
 
 export interface RepoConfig {
   repos: string[];
+  syncHorizon?: string; // Default horizon: absolute date ("2024-01-01") or relative period ("18 months")
+  repoSyncHorizons?: Record<string, string>; // Repo -> horizon override
+  syncCheckpointTtlHours?: number; // Interrupted syncs older than this restart instead of resuming
+  syncConcurrency?: number; // Repos synced in parallel
+  rateLimitReserve?: number; // GraphQL points left untouched; syncs pause until reset below this
+  syncSchedule?: string; // Cron expression for quick syncs of every repo not in a schedule group
+  syncScheduleGroups?: Record<string, SyncScheduleGroup>; // Group name -> its own schedule
+  deploymentEnvironments?: string[]; // Environments whose deployments count for DORA metrics
+  gitlabUrl?: string; // GitLab instance for gitlab: repos, e.g. "https://gitlab.example.com"
+  githubHosts?: Record<string, GitHubHostConfig>; // GitHub Enterprise Server host name -> its endpoints
+  githubApp?: GitHubAppConfig; // GitHub App whose installations sync github.com repos
+}
+
+export interface GitHubAppConfig {
+  appId: number;
+  privateKeyPath: string; // PEM file from the app's settings, relative to the working directory
+}
+
+export interface GitHubAppInstallation {
+  id: number;
+  account: string; // User or organization login the app is installed on
+  accountType: string; // "User" or "Organization"
+  repositorySelection: 'all' | 'selected';
+  suspended: boolean;
+}
+
+// Endpoints default to the GitHub Enterprise Server paths under url
+export interface GitHubHostConfig {
+  url?: string; // e.g. "https://github.example.com"; defaults to https://<host name>
+  apiUrl?: string; // REST API, default <url>/api/v3
+  graphqlUrl?: string; // default <url>/api/graphql
+  authorizeUrl?: string; // OAuth authorize page, default <url>/login/oauth/authorize
+  tokenUrl?: string; // OAuth token exchange, default <url>/login/oauth/access_token
+  envPrefix?: string; // Prefix of the credential env vars, default the host name upper-cased, e.g. GITHUB_EXAMPLE_COM
+  app?: GitHubAppConfig; // GitHub App registered on this host
+}
+
+export interface SyncScheduleGroup {
+  cron: string;
+  repos: string[];
+}
+
+export type ScheduledSyncRunStatus = 'completed' | 'failed' | 'cancelled' | 'skipped';
+
+export interface ScheduledSyncRun {
+  id: number;
+  schedule: string;
+  status: ScheduledSyncRunStatus;
+  jobId: string | null;
+  error: string | null;
+  scheduledFor: string;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface SyncScheduleStatus {
+  name: string;
+  cron: string;
+  repoCount: number;
+  nextRunAt: string | null;
+  lastRun: ScheduledSyncRun | null;
+  error: string | null;
+}
+
+export interface SchemaMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+export interface SchemaStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: SchemaMigration[];
+  pending: Array<{ version: number; name: string }>;
+  error: string | null; // Last migration failure in this process
+}
+
+export interface SnapshotFilter {
+  repos?: string[];
+  since?: string;
+  until?: string;
+  dateField: DateField; // PR date the range applies to
+}
+
+// First line of a cache snapshot
+export interface SnapshotHeader {
+  type: 'header';
+  format: string;
+  version: number; // Snapshot format version
+  schemaVersion: number; // Cache schema the rows were exported from
+  exportedAt: string;
+  filter: SnapshotFilter;
+}
+
+// Table rows as stored, with snake_case columns
+export type SnapshotRow = Record<string, string | number | null>;
+
+// Tables whose rows belong to a PR and travel with it
+export type PRDetailTable = 'pr_reviews' | 'pr_files' | 'pr_review_requests' | 'pr_checks' | 'pr_commits' | 'pr_issues';
+
+export type SnapshotRecord =
+  | { type: 'pull_request'; row: SnapshotRow; details: Record<PRDetailTable, SnapshotRow[]> }
+  | { type: 'issue'; row: SnapshotRow }
+  | { type: 'release'; row: SnapshotRow; commits: string[] }
+  | { type: 'deployment'; row: SnapshotRow; statuses: SnapshotRow[]; commits: string[] }
+  | { type: 'sync_status'; row: SnapshotRow };
+
+export type SnapshotRecordType = SnapshotRecord['type'];
+
+export interface SnapshotImportResult {
+  imported: Record<SnapshotRecordType, number>;
+  skipped: Record<SnapshotRecordType, number>; // The cache already had the same or newer data
+  error: string | null; // Import stopped here; records before it were merged
+}
+
+// PR counts by attribute, for slicing an analysis
+export interface PRBreakdowns {
+  labels: Record<string, number>;
+  baseRefs: Record<string, number>;
+  milestones: Record<string, number>;
+  mergeMethods: Record<string, number>;
+  drafts: number;
+}
+
+export interface CIPassStats {
+  withCI: number; // PRs whose head commit finished its checks
+  passed: number;
+  failed: number;
+  passRate: number | null; // Percentage of passed among finished
+}
+
+// A merged PR whose head commit was failing CI
+export interface RedMergedPR {
+  repo: string;
+  number: number;
+  title: string;
+  author: string;
+  url: string;
+  mergedAt: string;
+  ciState: CIState;
+  failedChecks: string[];
+}
+
+export interface CISummary {
+  overall: CIPassStats;
+  bySize: Record<PRSize, CIPassStats>;
+  byRepo: Array<CIPassStats & { repo: string }>;
+  trend: Array<CIPassStats & { date: string }>;
+  redMerged: RedMergedPR[];
+}
+
+export interface IssueSummary {
+  prsClosingIssues: number;
+  closingShare: number; // Percentage of PRs that close at least one issue
+  leadTime: DurationStats; // Earliest linked issue opened -> PR merged
+  leadTimeByType: Record<IssueType, DurationStats>;
+  issueTypes: Record<IssueType, number>; // Distinct linked issues by type
+}
+
+// A GitHub release, or a tag without one
+export interface Release {
+  repo: string;
+  tagName: string;
+  name: string | null;
+  commitSha: string;
+  publishedAt: string; // Tag date for tags without a release
+  isPrerelease: boolean;
+  hasRelease: boolean;
+}
+
+export interface ReleaseStats extends Release {
+  prCount: number; // Analyzed PRs this release shipped
+  timelineDate: string; // Timeline interval the release falls in
+}
+
+export interface ReleaseSummary {
+  releasedPRs: number;
+  unreleasedPRs: number; // Merged but not in any release yet
+  leadTimeToRelease: DurationStats; // PR merged -> released
+  releases: ReleaseStats[];
+}
+
+export type DeploymentState = 'success' | 'failure' | 'pending';
+
+// A GitHub deployment, reduced to its outcome
+export interface Deployment {
+  repo: string;
+  id: number;
+  environment: string;
+  sha: string;
+  ref: string;
+  createdAt: string;
+  state: DeploymentState; // Success if any status succeeded, failure if one failed or errored
+  finishedAt: string | null; // When the deciding status was posted
+}
+
+export interface DeploymentStatus {
+  id: number;
+  state: string; // GitHub status state, e.g. "in_progress", "success", "error"
+  createdAt: string;
+}
+
+// Where a repo's DORA deployments come from: its deployments, or its releases if it has none
+export type DoraSource = 'deployments' | 'releases';
+
+export interface DoraStats {
+  deployments: number; // Successful deployments
+  deploymentsPerWeek: number;
+  leadTime: DurationStats; // PR's first commit -> deployed
+  failedDeployments: number;
+  changeFailureRate: number | null; // Percentage of finished deployments that failed; null for releases
+  timeToRestore: DurationStats; // First failure of a streak -> next successful deployment
+}
+
+export interface DoraSummary {
+  overall: DoraStats;
+  byRepo: Array<DoraStats & { repo: string; source: DoraSource }>;
+  trend: Array<{ date: string; deployments: number; failures: number }>;
+  deployments: Deployment[];
 }
 
 export interface AnalysisResult {
@@ -67,7 +518,15 @@ export interface AnalysisResult {
   contributors: ContributorStats[];
   reviewers: ReviewerStats[];
   totalReviews: number;
+  breakdowns: PRBreakdowns;
+  flow: FlowSummary;
+  ci: CISummary;
+  issues: IssueSummary;
+  releases: ReleaseSummary;
+  dora: DoraSummary;
   avgComplexity: number; // Average complexity across all PRs
+  avgCommitsPerPR: number;
+  attribution: Attribution;
   prs: PullRequest[];
   timeline: TimelineData[];
   repos: string[];
@@ -75,6 +534,7 @@ export interface AnalysisResult {
     start: string;
     end: string;
   };
+  dateField: DateField;
 }
 
 export interface TimelineData {
@@ -94,3 +554,79 @@ export interface DateRange {
 }
 
 export type DatePreset = '7d' | '30d' | '90d' | 'h1' | 'h2' | '1y' | 'custom';
+
+// Which PR date the analysis period applies to
+export type DateField = 'created' | 'merged' | 'closed' | 'updated';
+
+export type SyncJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SyncRepoResult {
+  repo: string;
+  synced: number;
+  error?: string;
+}
+
+export interface SyncJob {
+  id: string;
+  status: SyncJobStatus;
+  fullSync: boolean;
+  repos: string[];
+  skippedRepos: string[];
+  completedRepos: number;
+  totalSynced: number;
+  currentRepo: string | null;
+  progress: number; // 0-100
+  results: SyncRepoResult[];
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+// Position of an unfinished repo sync, saved after every page so it can resume
+export interface SyncCheckpoint {
+  repo: string;
+  cursor: string | null; // GraphQL endCursor of the last saved page
+  cutoffDate: string;
+  coversFromCutoff: boolean;
+  fetchedCount: number;
+  startedAt: string;
+  updatedAt: string;
+}
+
+// Progress event emitted by a running sync job and streamed to subscribers over SSE
+export interface SyncEvent {
+  type: 'start' | 'repo_start' | 'repo_progress' | 'repo_complete' | 'repo_error' | 'rate_limited' | 'cancelled' | 'complete';
+  [key: string]: unknown;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'processed' | 'ignored' | 'failed';
+
+export interface WebhookDelivery {
+  id: string; // X-GitHub-Delivery GUID
+  event: string;
+  action: string | null;
+  repo: string | null;
+  status: WebhookDeliveryStatus;
+  error: string | null;
+  payload: unknown;
+  receivedAt: string;
+  processedAt: string | null;
+}
+
+// A GitHub account signed in to a session, one per host
+export interface SessionAccount {
+  host: string;
+  login: string;
+  name: string | null;
+  avatarUrl: string;
+  signedInAt: string;
+}
+
+export interface Session {
+  id: string; // SHA-256 of the session cookie
+  createdAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  accounts: SessionAccount[];
+}